@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserProvider } from '@/lib/users'
+import { SESSION_COOKIE, SESSION_MAX_AGE_SECONDS, createSessionCredential, getAuthSecret, signCredential } from '@/lib/session'
+
+// Sign in with a username and password; sets the session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const secret = getAuthSecret()
+    if (!secret) {
+      return Response.json({ error: 'Server auth not configured' }, { status: 500 })
+    }
+
+    const { username, password } = await request.json()
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return Response.json({ error: 'username and password are required' }, { status: 400 })
+    }
+
+    const user = await getUserProvider().authenticate(username, password)
+    if (!user) {
+      return Response.json({ error: 'Invalid username or password' }, { status: 401 })
+    }
+
+    const response = NextResponse.json({ user })
+    response.cookies.set(SESSION_COOKIE, await signCredential(createSessionCredential(user.id), secret), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_MAX_AGE_SECONDS
+    })
+    return response
+  } catch (error) {
+    console.error('Auth API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
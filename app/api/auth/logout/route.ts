@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/session'
+
+// Sign out by clearing the session cookie
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 })
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+import { getDailyTokenQuota, getUsageStore } from '@/lib/quota'
+import { toDayKey } from '@/lib/usage'
+
+// The signed-in user with today's token usage against their quota
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const tokensToday = await getUsageStore().getTokens(user.id, toDayKey(new Date()))
+    return Response.json({ user, quota: { tokensToday, dailyTokenQuota: getDailyTokenQuota() } })
+  } catch (error) {
+    console.error('Auth API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
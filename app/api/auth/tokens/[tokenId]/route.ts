@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+import { getApiTokenStore } from '@/lib/api-tokens'
+
+interface RouteContext {
+  params: Promise<{ tokenId: string }>
+}
+
+// Revoke one of the user's API tokens; it stops working immediately
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const { tokenId } = await params
+    const token = await getApiTokenStore().revokeToken(user.id, tokenId)
+    if (!token) {
+      return Response.json({ error: 'Token not found' }, { status: 404 })
+    }
+    return Response.json({ token })
+  } catch (error) {
+    console.error('Tokens API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+import { getApiTokenStore } from '@/lib/api-tokens'
+import { getAuthSecret, signCredential } from '@/lib/session'
+
+// List the user's API tokens, revoked ones included
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const tokens = await getApiTokenStore().listTokens(user.id)
+    return Response.json({ tokens })
+  } catch (error) {
+    console.error('Tokens API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create an API token; the bearer value is only returned here
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const secret = getAuthSecret()
+    if (!secret) {
+      return Response.json({ error: 'Server auth not configured' }, { status: 500 })
+    }
+
+    const { name } = await request.json()
+    if (typeof name !== 'string' || !name.trim()) {
+      return Response.json({ error: 'name is required' }, { status: 400 })
+    }
+
+    const token = await getApiTokenStore().createToken(user.id, name.trim())
+    const value = await signCredential({ typ: 'token', sub: user.id, tid: token.id }, secret)
+    return Response.json({ token, value }, { status: 201 })
+  } catch (error) {
+    console.error('Tokens API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
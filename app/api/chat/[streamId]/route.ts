@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server'
+import { getStreamBuffer, toSSEResponse } from '@/lib/stream-buffer'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+
+interface RouteContext {
+  params: Promise<{ streamId: string }>
+}
+
+// Resume a generation's event stream after the last event the client received
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await getRequestUser(request)
+  if (!user) return unauthorized()
+
+  const { streamId } = await params
+  const buffer = getStreamBuffer()
+  if (!buffer.has(streamId, user.id)) {
+    return Response.json({ error: 'Stream not found or expired' }, { status: 404 })
+  }
+
+  // EventSource sends Last-Event-ID itself; fetch-based clients may use the query string
+  const lastEventId = request.headers.get('Last-Event-ID') ?? request.nextUrl.searchParams.get('lastEventId')
+  const afterId = Number(lastEventId ?? 0)
+  if (!Number.isInteger(afterId) || afterId < 0) {
+    return Response.json({ error: 'Last-Event-ID must be a non-negative integer' }, { status: 400 })
+  }
+
+  return toSSEResponse(buffer.read(streamId, afterId), { 'X-Stream-Id': streamId })
+}
+
+// Stop the generation behind a stream; what it produced so far stays readable
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await getRequestUser(request)
+  if (!user) return unauthorized()
+
+  const { streamId } = await params
+  const buffer = getStreamBuffer()
+  if (!buffer.has(streamId, user.id)) {
+    return Response.json({ error: 'Stream not found or expired' }, { status: 404 })
+  }
+
+  buffer.cancel(streamId)
+  return new Response(null, { status: 204 })
+}
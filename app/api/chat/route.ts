@@ -1,52 +1,192 @@
 import { NextRequest } from 'next/server'
 import Anthropic from '@anthropic-ai/sdk'
 import type { Message } from '@anthropic-ai/sdk'
+import type { BetaContentBlock, BetaRawMessageStreamEvent } from '@anthropic-ai/sdk/resources/beta/messages/messages'
+import { getThreadStorage } from '@/lib/thread-storage'
+import { getFileOwnershipStore, checkFileReferences } from '@/lib/file-ownership'
+import { generatedFileIds } from '@/lib/code-execution'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+import { checkQuota, recordUsage } from '@/lib/quota'
+import { DEFAULT_SETTINGS } from '@/lib/settings'
+import { getChatPolicy, validateChatRequest, enforceWebSearchPolicy } from '@/lib/chat-policy'
+import { checkRateLimit } from '@/lib/rate-limit'
+import { fitToContext } from '@/lib/context'
+import { applyCacheBreakpoints } from '@/lib/prompt-cache'
+import { prepareThinkingHistory } from '@/lib/thinking'
+import { toBetaHeaders } from '@/lib/anthropic'
+import { getStreamBuffer, toSSEResponse } from '@/lib/stream-buffer'
+import { toChatError, type ChatErrorEvent } from '@/lib/chat-errors'
+import { keepFinishedContent, STOPPED_BY_USER } from '@/lib/stop'
+import { applyStreamEvent, type StreamingMessage } from '@/lib/stream-reducer'
+import {
+  getMockMode, selectFixture, loadFixture, getFixtureResponse, waitForStep, withReplayId, createFixtureRecorder, newRecordingName,
+  DEFAULT_FIXTURE, FIXTURE_HEADER
+} from '@/lib/mock-chat'
 
-// Helper to create SSE response
-function createSSEResponse() {
-  const encoder = new TextEncoder()
-  const stream = new TransformStream()
-  const writer = stream.writable.getWriter()
+// How long a generation outlives its client connection, waiting for a reconnect
+const DISCONNECT_GRACE_MS = 30 * 1000
+
+// Events go to a buffer rather than straight to the response, so the generation
+// survives a dropped connection and can be replayed from /api/chat/[streamId]
+function createBufferedStream(userId: string, onCancel: () => void) {
+  const buffer = getStreamBuffer()
+  const streamId = crypto.randomUUID()
+  buffer.create(streamId, userId, onCancel)
 
   return {
-    stream: stream.readable,
-    write: async (data: string) => {
-      await writer.write(encoder.encode(`data: ${data}\n\n`))
-    },
-    close: async () => {
-      await writer.write(encoder.encode('data: [DONE]\n\n'))
-      await writer.close()
+    streamId,
+    write: (data: string) => buffer.append(streamId, data),
+    close: () => {
+      buffer.append(streamId, '[DONE]')
+      buffer.finish(streamId)
     }
   }
 }
 
+// The first `count` events, after which the connection ends as if it had dropped
+async function* takeEvents<T>(events: AsyncGenerator<T>, count: number): AsyncGenerator<T> {
+  if (count <= 0) return
+  let taken = 0
+  for await (const event of events) {
+    yield event
+    if (++taken >= count) return
+  }
+}
+
+// Who a reply is for and where it belongs
+interface ReplyOwner {
+  userId: string
+  threadId?: string
+  parentMessageId?: string | null
+}
+
+// Count a reply toward the user's quota and record it for server-side threads, under the
+// message it answers. Like the client, a stopped reply keeps only its finished content,
+// and isn't kept at all without any.
+async function recordReply({ userId, threadId, parentMessageId }: ReplyOwner, reply: StreamingMessage | Message, stopped: boolean) {
+  await recordUsage(userId, reply.usage as Message['usage'])
+  // Files made by code execution belong to the user whose request made them
+  await getFileOwnershipStore().addFiles(userId, generatedFileIds(reply.content as BetaContentBlock[]))
+  if (!threadId) return
+
+  const content = stopped ? keepFinishedContent(reply.content) : reply.content
+  if (content.length === 0) return
+  const message = {
+    ...reply,
+    content,
+    ...(stopped ? { stop_reason: STOPPED_BY_USER } : {}),
+    parentId: parentMessageId
+  } as unknown as Message
+  const thread = await getThreadStorage().appendMessage(userId, threadId, message)
+  if (!thread) console.error('Cannot record message, thread not found:', threadId)
+}
+
+// Stream a recorded fixture through the same buffer as a live generation, so stopping
+// and reconnecting behave as they do against the API
+async function replayFixture(name: string, round: number, owner: ReplyOwner): Promise<Response> {
+  const fixture = await loadFixture(name)
+  const response = fixture && getFixtureResponse(fixture, round)
+  if (!response) {
+    return Response.json({ error: `Mock fixture not found: ${name}` }, { status: 404 })
+  }
+  if (response.error) {
+    return Response.json({ error: response.error }, { status: response.status ?? 500 })
+  }
+
+  const generation = new AbortController()
+  const { streamId, write, close } = createBufferedStream(owner.userId, () => generation.abort())
+  const steps = response.steps ?? []
+
+  ;(async () => {
+    // Rebuilt from the events, so replayed replies are stored and counted like live ones
+    let reply: StreamingMessage | null = null
+    for (const step of steps) {
+      await waitForStep(step, generation.signal)
+      if (generation.signal.aborted) break
+      if (!('data' in step)) continue
+      const event = withReplayId(step.data, streamId) as BetaRawMessageStreamEvent
+      write(JSON.stringify(event))
+      reply = event.type === 'message_start' ? event.message : reply && applyStreamEvent(reply, event)
+    }
+    close()
+    if (reply) {
+      await recordReply(owner, reply, generation.signal.aborted)
+        .catch(error => console.error('Cannot record replayed message:', error))
+    }
+  })()
+
+  // The first recorded disconnect cuts off this response; the client resumes the rest
+  const disconnectAt = steps.findIndex(step => 'disconnect' in step)
+  const events = getStreamBuffer().read(streamId, 0)
+  return toSSEResponse(disconnectAt === -1 ? events : takeEvents(events, disconnectAt), { 'X-Stream-Id': streamId })
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const limited = await checkRateLimit(request)
+    if (limited) return limited
+    const overQuota = await checkQuota(user.id)
+    if (overQuota) return overQuota
+
+    const body = await request.json().catch(() => null)
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return Response.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+    }
     const { 
       messages, 
+      system,
       model = 'claude-sonnet-4-20250514', 
       max_tokens = 2048,
-      tools = [],
-      betaFeatures = []
+      temperature,
+      top_p,
+      top_k,
+      stop_sequences,
+      thinking,
+      tools: requestedTools = [],
+      betaFeatures = [],
+      contextStrategy = DEFAULT_SETTINGS.contextStrategy,
+      threadId,
+      parentMessageId = null
     } = body
 
+    const policy = getChatPolicy()
+    const requestErrors = validateChatRequest({
+      messages, system, model, max_tokens, temperature, top_p, top_k, stop_sequences, thinking,
+      tools: requestedTools, betaFeatures, contextStrategy, threadId, parentMessageId
+    }, policy)
+    if (requestErrors.length > 0) {
+      return Response.json({ error: requestErrors.join('; ') }, { status: 400 })
+    }
+    // Files are shared under the server's API key; only the user's own may be read
+    const foreignFile = await checkFileReferences(user.id, messages)
+    if (foreignFile) return foreignFile
+
+    // The server's web search limits replace whatever the client asked for beyond them
+    const tools: typeof requestedTools = enforceWebSearchPolicy(requestedTools, policy)
+
+    const owner: ReplyOwner = { userId: user.id, threadId, parentMessageId }
+
+    // Offline development: replay a recorded stream instead of calling the API
+    const mockMode = getMockMode()
+    const fixture = selectFixture(messages, request.headers.get(FIXTURE_HEADER))
+    if (mockMode === 'replay') {
+      return replayFixture(fixture.name ?? DEFAULT_FIXTURE, fixture.round, owner)
+    }
+    const recorder = mockMode === 'record'
+      ? createFixtureRecorder(fixture.name ?? newRecordingName(), fixture.round)
+      : null
+
     // Get API key from server-side environment variable
     const apiKey = process.env.ANTHROPIC_API_KEY
     if (!apiKey) {
       return Response.json({ error: 'Server API key not configured' }, { status: 500 })
     }
 
-    if (!messages || !Array.isArray(messages)) {
-      return Response.json({ error: 'Messages array is required' }, { status: 400 })
-    }
-
     // Build beta header if features are requested
-    const betaHeaders: string[] = []
-    if (betaFeatures.includes('web-search')) betaHeaders.push('web-search-2025-03-05')
-    if (betaFeatures.includes('code-execution')) betaHeaders.push('code-execution-2025-05-22')
-    if (betaFeatures.includes('files')) betaHeaders.push('files-api-2025-04-14')
-    if (betaFeatures.includes('thinking')) betaHeaders.push('interleaved-thinking-2025-05-14')
+    const betaHeaders = toBetaHeaders(betaFeatures)
 
     // Initialize Anthropic client with server-side API key and headers
     const anthropic = new Anthropic({
@@ -56,27 +196,63 @@ export async function POST(request: NextRequest) {
         : {}
     })
 
-    // Create SSE response
-    const { stream, write, close } = createSSEResponse()
+    // Thinking blocks go back signed and unchanged, or not at all
+    const history = prepareThinkingHistory(messages, thinking)
+    if (thinking && !history.thinking) console.log('Thinking is off until the current tool loop ends')
+
+    // Shorten long histories to fit the context window; if counting fails, send as-is
+    let fittedMessages = history.messages
+    try {
+      const fit = await fitToContext(
+        anthropic,
+        { model, messages: history.messages, system, tools: tools.length > 0 ? tools : undefined, thinking: history.thinking },
+        { maxTokens: max_tokens, strategy: contextStrategy, summaryKey: threadId && `${user.id}:${threadId}` }
+      )
+      if (fit.trimmed) console.log(`Context trimmed with ${contextStrategy} to ${fit.inputTokens} tokens`)
+      // Summarizing is paid for like the reply
+      await recordUsage(user.id, fit.summaryUsage)
+        .catch(usageError => console.error('Cannot record usage:', usageError))
+      fittedMessages = fit.messages
+    } catch (error) {
+      console.error('Context fitting failed:', error)
+    }
+
+    // Reuse the unchanged prefix of the conversation across turns
+    const cached = applyCacheBreakpoints({ system, tools, messages: fittedMessages })
+
+    // Create SSE response; cancelling the stream (DELETE /api/chat/[streamId]) stops the generation
+    const generation = new AbortController()
+    const { streamId, write, close } = createBufferedStream(owner.userId, () => generation.abort())
+
+    // A closed connection stops the generation unless the client reconnects in time
+    request.signal.addEventListener('abort', () => {
+      const buffer = getStreamBuffer()
+      const reads = buffer.readCount(streamId)
+      setTimeout(() => {
+        if (buffer.readCount(streamId) === reads) buffer.cancel(streamId)
+      }, DISCONNECT_GRACE_MS)
+    }, { once: true })
 
     // Start streaming in the background
     ;(async () => {
-      try {
-        const messageStream = await anthropic.messages.create({
-          model,
-          max_tokens,
-          messages,
-          tools: tools.length > 0 ? tools : undefined,
-          thinking: betaFeatures.includes('thinking') ? {
-            type: 'enabled',
-            budget_tokens: Math.floor(Math.min(max_tokens * 0.8, 10000)) // 80% of max_tokens or 10k, whichever is less
-          } : undefined,
-          stream: true,
-        })
+      const messageStream = anthropic.messages.stream({
+        model,
+        max_tokens,
+        messages: cached.messages,
+        system: cached.system,
+        temperature,
+        top_p,
+        top_k,
+        stop_sequences,
+        tools: tools.length > 0 ? cached.tools : undefined,
+        thinking: history.thinking,
+      }, { signal: generation.signal })
 
+      try {
         for await (const chunk of messageStream) {
           // Send each chunk as SSE
-          await write(JSON.stringify(chunk))
+          write(JSON.stringify(chunk))
+          recorder?.record(chunk)
           
           // Log for debugging
           if (chunk.type === 'message_start') {
@@ -101,30 +277,41 @@ export async function POST(request: NextRequest) {
           }
         }
 
-        await close()
+        // The reply is complete once streamed; failing to store it must not turn it into an error
+        const reply = await messageStream.finalMessage()
+        close()
+        await recordReply(owner, reply, false)
+          .catch(storageError => console.error('Cannot record message:', storageError))
       } catch (error) {
+        if (generation.signal.aborted) {
+          // Stopped on purpose; keep what was generated so far, with the usage it cost
+          console.log('Generation cancelled:', streamId)
+          const partial = messageStream.currentMessage
+          if (partial) {
+            await recordReply(owner, partial, true)
+              .catch(storageError => console.error('Cannot record stopped message:', storageError))
+          }
+          close()
+          return
+        }
+
+        // Tokens used before a failure still count toward the quota
+        await recordUsage(user.id, messageStream.currentMessage?.usage)
+          .catch(usageError => console.error('Cannot record usage:', usageError))
         console.error('Streaming error:', error)
-        await write(JSON.stringify({ 
-          type: 'error', 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        }))
-        await close()
+        const errorEvent: ChatErrorEvent = { type: 'error', error: toChatError(error) }
+        write(JSON.stringify(errorEvent))
+        recorder?.record(errorEvent)
+        close()
       }
+      await recorder?.save().catch(recordError => console.error('Cannot save fixture:', recordError))
     })()
 
-    // Return SSE response
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    })
+    // Return SSE response; the stream ID lets the client reconnect
+    return toSSEResponse(getStreamBuffer().read(streamId, 0), { 'X-Stream-Id': streamId })
   } catch (error) {
     console.error('API error:', error)
-    return Response.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
-    )
+    const chatError = toChatError(error)
+    return Response.json({ error: chatError }, { status: chatError.status ?? 500 })
   }
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server'
+import { createAnthropicClient, toBetaHeaders } from '@/lib/anthropic'
+import { getContextWindow } from '@/lib/settings'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+import { getChatPolicy, validateChatRequest, enforceWebSearchPolicy } from '@/lib/chat-policy'
+import { checkRateLimit, getCountTokensRateLimiter } from '@/lib/rate-limit'
+import { checkFileReferences } from '@/lib/file-ownership'
+import { prepareThinkingHistory } from '@/lib/thinking'
+import { getMockMode, estimateTokens } from '@/lib/mock-chat'
+
+// Count the input tokens a chat request would use, alongside the model's context window.
+// Counting runs on the server's API key too, so the request is held to the chat policy.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const limited = await checkRateLimit(request, getCountTokensRateLimiter())
+    if (limited) return limited
+
+    const body = await request.json().catch(() => null)
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return Response.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+    }
+    const { messages, system, model, max_tokens, tools: requestedTools = [], thinking, betaFeatures = [] } = body
+
+    const policy = getChatPolicy()
+    const requestErrors = validateChatRequest({
+      messages, system, model, max_tokens, thinking, tools: requestedTools, betaFeatures
+    }, policy)
+    if (requestErrors.length > 0) {
+      return Response.json({ error: requestErrors.join('; ') }, { status: 400 })
+    }
+    const foreignFile = await checkFileReferences(user.id, messages)
+    if (foreignFile) return foreignFile
+    const tools: typeof requestedTools = enforceWebSearchPolicy(requestedTools, policy)
+
+    // Offline development: estimate instead of asking the API
+    if (getMockMode() === 'replay') {
+      const input_tokens = estimateTokens({ system, messages, tools })
+      return Response.json({ input_tokens, context_window: getContextWindow(model) })
+    }
+
+    const betaHeaders = toBetaHeaders(betaFeatures)
+    const anthropic = createAnthropicClient({
+      defaultHeaders: betaHeaders.length > 0 ? { 'anthropic-beta': betaHeaders.join(',') } : {}
+    })
+    if (!anthropic) {
+      return Response.json({ error: 'Server API key not configured' }, { status: 500 })
+    }
+
+    // Counted as the chat route would send it
+    const history = prepareThinkingHistory(messages, thinking)
+    const { input_tokens } = await anthropic.messages.countTokens({
+      model,
+      messages: history.messages,
+      system,
+      tools: tools.length > 0 ? tools : undefined,
+      thinking: history.thinking
+    })
+
+    return Response.json({ input_tokens, context_window: getContextWindow(model) })
+  } catch (error) {
+    console.error('Count tokens API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
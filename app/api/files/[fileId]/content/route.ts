@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server'
+import Anthropic from '@anthropic-ai/sdk'
+import { createAnthropicClient } from '@/lib/anthropic'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+import { getFileOwnershipStore } from '@/lib/file-ownership'
+
+interface RouteContext {
+  params: Promise<{ fileId: string }>
+}
+
+// Download file contents, e.g. files generated by code_execution
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const anthropic = createAnthropicClient()
+    if (!anthropic) {
+      return Response.json({ error: 'Server API key not configured' }, { status: 500 })
+    }
+
+    const { fileId } = await params
+    if (!await getFileOwnershipStore().ownsFile(user.id, fileId)) {
+      return Response.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const metadata = await anthropic.beta.files.retrieveMetadata(fileId)
+    if (!metadata.downloadable) {
+      return Response.json({ error: 'File is not downloadable' }, { status: 403 })
+    }
+
+    const download = await anthropic.beta.files.download(fileId)
+    return new Response(download.body, {
+      headers: {
+        'Content-Type': metadata.mime_type || 'application/octet-stream',
+        'Content-Length': String(metadata.size_bytes),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(metadata.filename)}`
+      }
+    })
+  } catch (error) {
+    if (error instanceof Anthropic.NotFoundError) {
+      return Response.json({ error: 'File not found' }, { status: 404 })
+    }
+    console.error('Files API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
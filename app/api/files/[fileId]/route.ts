@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server'
+import Anthropic from '@anthropic-ai/sdk'
+import { createAnthropicClient } from '@/lib/anthropic'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+import { getFileOwnershipStore } from '@/lib/file-ownership'
+
+interface RouteContext {
+  params: Promise<{ fileId: string }>
+}
+
+// Get file metadata
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const anthropic = createAnthropicClient()
+    if (!anthropic) {
+      return Response.json({ error: 'Server API key not configured' }, { status: 500 })
+    }
+
+    const { fileId } = await params
+    if (!await getFileOwnershipStore().ownsFile(user.id, fileId)) {
+      return Response.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const file = await anthropic.beta.files.retrieveMetadata(fileId)
+    return Response.json({ file })
+  } catch (error) {
+    if (error instanceof Anthropic.NotFoundError) {
+      return Response.json({ error: 'File not found' }, { status: 404 })
+    }
+    console.error('Files API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a file
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const anthropic = createAnthropicClient()
+    if (!anthropic) {
+      return Response.json({ error: 'Server API key not configured' }, { status: 500 })
+    }
+
+    const { fileId } = await params
+    const files = getFileOwnershipStore()
+    if (!await files.ownsFile(user.id, fileId)) {
+      return Response.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    await anthropic.beta.files.delete(fileId)
+    await files.removeFile(user.id, fileId)
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof Anthropic.NotFoundError) {
+      return Response.json({ error: 'File not found' }, { status: 404 })
+    }
+    console.error('Files API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server'
+import { createAnthropicClient } from '@/lib/anthropic'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+import { getFileOwnershipStore } from '@/lib/file-ownership'
+
+// List the user's files (paginated with before_id / after_id). Pages come from the Files API
+// and only keep the user's own files, so a page may hold fewer than `limit`.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const anthropic = createAnthropicClient()
+    if (!anthropic) {
+      return Response.json({ error: 'Server API key not configured' }, { status: 500 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const limit = searchParams.get('limit')
+    const page = await anthropic.beta.files.list({
+      limit: limit ? Number(limit) : undefined,
+      after_id: searchParams.get('after_id') ?? undefined,
+      before_id: searchParams.get('before_id') ?? undefined
+    })
+
+    const owned = await getFileOwnershipStore().ownedFileIds(user.id)
+    return Response.json({
+      files: page.data.filter(file => owned.has(file.id)),
+      has_more: page.has_more,
+      first_id: page.first_id,
+      last_id: page.last_id
+    })
+  } catch (error) {
+    console.error('Files API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Upload a file from a multipart form (field name `file`)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const anthropic = createAnthropicClient()
+    if (!anthropic) {
+      return Response.json({ error: 'Server API key not configured' }, { status: 500 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return Response.json({ error: 'file is required' }, { status: 400 })
+    }
+
+    const metadata = await anthropic.beta.files.upload({ file })
+    await getFileOwnershipStore().addFiles(user.id, [metadata.id])
+    return Response.json({ file: metadata }, { status: 201 })
+  } catch (error) {
+    console.error('Files API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
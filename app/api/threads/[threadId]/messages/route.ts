@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server'
+import { getThreadStorage } from '@/lib/thread-storage'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+
+interface RouteContext {
+  params: Promise<{ threadId: string }>
+}
+
+// Append a message to a thread (a message with an existing ID replaces it)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const { threadId } = await params
+    const { message } = await request.json()
+
+    if (!message || typeof message.id !== 'string' || !['user', 'assistant'].includes(message.role) || !Array.isArray(message.content)) {
+      return Response.json({ error: 'message with id, role and content is required' }, { status: 400 })
+    }
+
+    const thread = await getThreadStorage().appendMessage(user.id, threadId, message)
+    if (!thread) {
+      return Response.json({ error: 'Thread not found' }, { status: 404 })
+    }
+    return Response.json({ thread }, { status: 201 })
+  } catch (error) {
+    console.error('Threads API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server'
+import { getThreadStorage } from '@/lib/thread-storage'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+
+interface RouteContext {
+  params: Promise<{ threadId: string }>
+}
+
+// Get a thread with its messages
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const { threadId } = await params
+    const thread = await getThreadStorage().getThread(user.id, threadId)
+    if (!thread) {
+      return Response.json({ error: 'Thread not found' }, { status: 404 })
+    }
+    return Response.json({ thread })
+  } catch (error) {
+    console.error('Threads API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Rename a thread
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const { threadId } = await params
+    const { title } = await request.json()
+
+    if (typeof title !== 'string' || !title.trim()) {
+      return Response.json({ error: 'title is required' }, { status: 400 })
+    }
+
+    const thread = await getThreadStorage().renameThread(user.id, threadId, title.trim())
+    if (!thread) {
+      return Response.json({ error: 'Thread not found' }, { status: 404 })
+    }
+    return Response.json({ thread })
+  } catch (error) {
+    console.error('Threads API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a thread
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const { threadId } = await params
+    const deleted = await getThreadStorage().deleteThread(user.id, threadId)
+    if (!deleted) {
+      return Response.json({ error: 'Thread not found' }, { status: 404 })
+    }
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    console.error('Threads API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
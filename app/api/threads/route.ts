@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server'
+import { getThreadStorage } from '@/lib/thread-storage'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+
+// List the user's threads (without messages)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const threads = await getThreadStorage().listThreads(user.id)
+    return Response.json({ threads })
+  } catch (error) {
+    console.error('Threads API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a thread; the client may supply its own ID so both sides agree
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+
+    const { id, title } = await request.json()
+
+    if (id !== undefined && typeof id !== 'string') {
+      return Response.json({ error: 'id must be a string' }, { status: 400 })
+    }
+    if (title !== undefined && typeof title !== 'string') {
+      return Response.json({ error: 'title must be a string' }, { status: 400 })
+    }
+
+    const thread = await getThreadStorage().createThread(user.id, { id, title })
+    if (!thread) {
+      return Response.json({ error: 'Thread ID already in use' }, { status: 409 })
+    }
+    return Response.json({ thread }, { status: 201 })
+  } catch (error) {
+    console.error('Threads API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest } from 'next/server'
+import { createAnthropicClient } from '@/lib/anthropic'
+import { getRequestUser, unauthorized } from '@/lib/auth'
+import { checkQuota, recordUsage } from '@/lib/quota'
+import { getMockMode, mockTitle } from '@/lib/mock-chat'
+
+// Titles only need a gist of the conversation, so a fast, cheap model is enough
+const TITLE_MODEL = 'claude-3-5-haiku-20241022'
+const TITLE_MAX_TOKENS = 32
+
+// Per-message cap on the text sent for titling
+const MAX_EXCERPT_CHARS = 2000
+
+const TITLE_PROMPT = 'Write a short title (at most 6 words) for the conversation below. ' +
+  'Reply with the title only: no quotes, no trailing punctuation.'
+
+// Text content of a message; attachments, thinking and tool blocks are left out
+function toExcerpt(content: unknown): string {
+  const text = typeof content === 'string'
+    ? content
+    : Array.isArray(content)
+      ? content.filter(block => block?.type === 'text' && typeof block.text === 'string').map(block => block.text).join('\n')
+      : ''
+  return text.slice(0, MAX_EXCERPT_CHARS)
+}
+
+// Generate a title for a conversation (non-streaming)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return unauthorized()
+    const overQuota = await checkQuota(user.id)
+    if (overQuota) return overQuota
+
+    const { messages } = await request.json()
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return Response.json({ error: 'Messages array is required' }, { status: 400 })
+    }
+
+    const excerpts = messages
+      .map(message => ({ role: message?.role, text: toExcerpt(message?.content) }))
+      .filter(message => (message.role === 'user' || message.role === 'assistant') && message.text.trim())
+    if (excerpts.length === 0) {
+      return Response.json({ error: 'Messages contain no text to title' }, { status: 400 })
+    }
+
+    // Offline development: title the conversation by its opening words
+    if (getMockMode() === 'replay') {
+      return Response.json({ title: mockTitle(excerpts[0].text) })
+    }
+
+    const anthropic = createAnthropicClient()
+    if (!anthropic) {
+      return Response.json({ error: 'Server API key not configured' }, { status: 500 })
+    }
+
+    const transcript = excerpts
+      .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.text}`)
+      .join('\n\n')
+
+    const response = await anthropic.messages.create({
+      model: TITLE_MODEL,
+      max_tokens: TITLE_MAX_TOKENS,
+      system: TITLE_PROMPT,
+      messages: [{ role: 'user', content: transcript }]
+    })
+    await recordUsage(user.id, response.usage)
+
+    const title = response.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('')
+      .trim()
+      .replace(/^["']|["'.]$/g, '')
+    if (!title) {
+      return Response.json({ error: 'Model returned an empty title' }, { status: 502 })
+    }
+
+    return Response.json({ title })
+  } catch (error) {
+    console.error('Title API error:', error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,20 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import { useChatStore } from '@/store/chat'
+import { readAttachment } from '@/lib/attachments'
+import { sumUsage, formatCost } from '@/lib/usage'
+import SettingsModal from '@/components/settings-modal'
+import AccountPanel from '@/components/account-panel'
+import CodeExecutionResult from '@/components/code-execution-result'
+import SourcesPanel from '@/components/sources-panel'
+import { findCodeExecutionResult, hasServerToolUse } from '@/lib/code-execution'
+import { describeSearchError } from '@/lib/web-search'
+
+// Sending is refused before any request (spend cap reached, attachments too large) by rejecting with the reason
+function alertIfRefused(sending: Promise<void>) {
+  sending.catch((error) => alert(error instanceof Error ? error.message : 'Could not send the message'))
+}
 
 export default function TestPage() {
   // Direct store access to avoid SSR issues
@@ -18,6 +32,11 @@ export default function TestPage() {
   const getActiveToolCalls = useChatStore((state) => state.getActiveToolCalls)
   const isStreaming = useChatStore((state) => state.isStreaming)
   const hasThinkingBlock = useChatStore((state) => state.hasThinkingBlock)
+  const getThreadUsage = useChatStore((state) => state.getThreadUsage)
+  const getDailyUsage = useChatStore((state) => state.getDailyUsage)
+  // Subscribed so the totals re-render as usage is recorded
+  const spendCap = useChatStore((state) => state.spendCap)
+  useChatStore((state) => state.dailyUsage)
   
   // Get derived values
   const streamingMessage = getStreamingMessage()
@@ -29,8 +48,34 @@ export default function TestPage() {
   const setMessageInput = useChatStore((state) => state.setMessageInput)
   const submitMessage = useChatStore((state) => state.submitMessage)
   const createThread = useChatStore((state) => state.createThread)
+  const selectThread = useChatStore((state) => state.selectThread)
   const toggleSidebar = useChatStore((state) => state.toggleSidebar)
   const setSelectedView = useChatStore((state) => state.setSelectedView)
+  const setActiveModal = useChatStore((state) => state.setActiveModal)
+  const addAttachment = useChatStore((state) => state.addAttachment)
+  const removeAttachment = useChatStore((state) => state.removeAttachment)
+  const regenerateMessage = useChatStore((state) => state.regenerateMessage)
+  const retryMessage = useChatStore((state) => state.retryMessage)
+  const stopGeneration = useChatStore((state) => state.stopGeneration)
+  const editMessage = useChatStore((state) => state.editMessage)
+  const selectSibling = useChatStore((state) => state.selectSibling)
+  const getSiblingPosition = useChatStore((state) => state.getSiblingPosition)
+  const renameThread = useChatStore((state) => state.renameThread)
+  const countContextTokens = useChatStore((state) => state.countContextTokens)
+  
+  // How full the context window would be if the draft were sent now
+  const [contextUsage, setContextUsage] = useState<{ inputTokens: number, contextWindow: number } | null>(null)
+  useEffect(() => {
+    if (streaming) return
+    // Debounced so typing doesn't send a count request per keystroke
+    const timeout = setTimeout(() => {
+      countContextTokens().then(setContextUsage).catch((error) => {
+        console.error(error)
+        setContextUsage(null)
+      })
+    }, 1000)
+    return () => clearTimeout(timeout)
+  }, [messages, messageInput, selectedThreadId, streaming, countContextTokens])
   
   // Construct state object for display
   const state = {
@@ -53,12 +98,37 @@ export default function TestPage() {
       <div className="max-w-7xl mx-auto space-y-4">
         <h1 className="text-2xl font-bold mb-4 text-gray-900">Anthropic Chat Test Page</h1>
         
+        {activeModal === 'settings' && <SettingsModal />}
+        
         {/* Server Status */}
         <div className="bg-white p-4 rounded-lg shadow">
           <h2 className="font-semibold mb-2 text-gray-900">Server Status</h2>
           <p className="text-green-600">✓ API Key configured server-side</p>
         </div>
         
+        <AccountPanel />
+        
+        {/* Threads */}
+        {threads.length > 0 && (
+          <div className="bg-white p-4 rounded-lg shadow">
+            <h2 className="font-semibold mb-2 text-gray-900">Threads</h2>
+            <div className="flex gap-2 flex-wrap">
+              {threads.map((thread) => (
+                <button
+                  key={thread.id}
+                  onClick={() => selectThread(thread.id)}
+                  className={`flex items-center gap-2 px-3 py-1 rounded text-sm ${thread.id === selectedThreadId ? 'bg-blue-500 text-white' : 'bg-gray-100'}`}
+                >
+                  {isStreaming(thread.id) && (
+                    <span className="inline-block w-2 h-2 rounded-full bg-green-500 animate-pulse" title="Streaming" />
+                  )}
+                  {thread.title}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        
         {/* Active Tool Calls */}
         {activeToolCalls.length > 0 && (
           <div className="bg-yellow-50 p-4 rounded-lg shadow border-2 border-yellow-300">
@@ -78,7 +148,15 @@ export default function TestPage() {
         
         {/* Message Input */}
         <div className="bg-white p-4 rounded-lg shadow">
-          <h2 className="font-semibold mb-2 text-gray-900">Send Message</h2>
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="font-semibold text-gray-900">Send Message</h2>
+            {contextUsage && (
+              <p className={`text-xs ${contextUsage.inputTokens > contextUsage.contextWindow * 0.9 ? 'text-red-600' : 'text-gray-600'}`}>
+                Context: {contextUsage.inputTokens.toLocaleString()} / {contextUsage.contextWindow.toLocaleString()} tokens
+                ({Math.round(100 * contextUsage.inputTokens / contextUsage.contextWindow)}%)
+              </p>
+            )}
+          </div>
           <div className="flex gap-2">
             <input
               type="text"
@@ -87,26 +165,70 @@ export default function TestPage() {
               onKeyDown={(e) => {
                 if (e.key === 'Enter' && !e.shiftKey) {
                   e.preventDefault()
-                  submitMessage()
+                  alertIfRefused(submitMessage())
                 }
               }}
               placeholder="Type a message..."
               className="flex-1 p-2 border rounded"
               disabled={streaming}
             />
+            <label className="px-4 py-2 bg-gray-200 rounded cursor-pointer">
+              📎
+              <input
+                type="file"
+                multiple
+                className="hidden"
+                disabled={streaming}
+                onChange={async (e) => {
+                  for (const file of Array.from(e.target.files ?? [])) {
+                    try {
+                      addAttachment(await readAttachment(file))
+                    } catch (error) {
+                      alert(error instanceof Error ? error.message : 'Could not attach file')
+                    }
+                  }
+                  e.target.value = ''
+                }}
+              />
+            </label>
             <button
-              onClick={() => submitMessage()}
-              disabled={streaming || !messageInput.trim()}
+              onClick={() => alertIfRefused(submitMessage())}
+              disabled={streaming || (!messageInput.trim() && attachments.length === 0)}
               className="px-4 py-2 bg-blue-500 text-white rounded disabled:bg-gray-300"
             >
               {streaming ? 'Sending...' : 'Send'}
             </button>
+            {streaming && selectedThreadId && (
+              <button
+                onClick={() => stopGeneration(selectedThreadId)}
+                className="px-4 py-2 bg-red-500 text-white rounded"
+              >
+                Stop
+              </button>
+            )}
           </div>
+          {attachments.length > 0 && (
+            <div className="flex gap-2 flex-wrap mt-2">
+              {attachments.map((attachment) => (
+                <span key={attachment.id} className="flex items-center gap-1 px-2 py-1 bg-gray-100 rounded text-sm">
+                  {attachment.name}
+                  <button onClick={() => removeAttachment(attachment.id)} className="text-gray-500">×</button>
+                </span>
+              ))}
+            </div>
+          )}
         </div>
         
         {/* Messages Display */}
         <div className="bg-white p-4 rounded-lg shadow">
-          <h2 className="font-semibold mb-2 text-gray-900">Messages</h2>
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="font-semibold text-gray-900">Messages</h2>
+            <p className="text-xs text-gray-600">
+              {selectedThreadId && <>Thread: {formatCost(getThreadUsage(selectedThreadId).cost)} · </>}
+              Today: {formatCost(getDailyUsage().cost)}
+              {spendCap !== null && <> of {formatCost(spendCap)} cap</>}
+            </p>
+          </div>
           <div className="space-y-2 max-h-96 overflow-y-auto">
             {messages.length === 0 && !streamingMessage ? (
               <p className="text-gray-600">No messages yet</p>
@@ -114,7 +236,24 @@ export default function TestPage() {
               <>
                 {messages.map((msg, idx) => (
                   <div key={idx} className={`p-3 rounded-lg ${msg.role === 'user' ? 'bg-blue-100' : 'bg-gray-100'}`}>
-                    <p className="font-semibold text-sm mb-1 text-gray-800">{msg.role}</p>
+                    <p className="font-semibold text-sm mb-1 text-gray-800">{msg.role}{msg.stop_reason === 'interrupted' && ' (interrupted)'}{msg.stop_reason === 'stopped_by_user' && ' (stopped)'}</p>
+                    {msg.role === 'assistant' && msg.usage && (() => {
+                      const { usage, cost } = sumUsage([msg])
+                      const promptTokens = usage.input_tokens + usage.cache_creation_input_tokens + usage.cache_read_input_tokens
+                      return (
+                        <p className="text-xs text-gray-500 mb-1">
+                          {promptTokens > 0 && (
+                            <span className={usage.cache_read_input_tokens > 0 ? 'text-green-700' : 'text-orange-700'}>
+                              {usage.cache_read_input_tokens > 0
+                                ? `cache hit ${Math.round(100 * usage.cache_read_input_tokens / promptTokens)}%`
+                                : 'cache miss'} ·{' '}
+                            </span>
+                          )}
+                          in {usage.input_tokens} · out {usage.output_tokens} · cache write {usage.cache_creation_input_tokens} · cache read {usage.cache_read_input_tokens}
+                          {usage.web_search_requests > 0 && ` · ${usage.web_search_requests} searches`} · {formatCost(cost)}
+                        </p>
+                      )
+                    })()}
                     {msg.content.map((block, blockIdx) => (
                       <div key={blockIdx} className="mb-2">
                         {block.type === 'text' && (
@@ -129,7 +268,7 @@ export default function TestPage() {
                                   <div key={citIdx} className="ml-2 mb-1">
                                     <a href={citation.url} target="_blank" rel="noopener noreferrer" 
                                        className="text-blue-600 hover:underline">
-                                      {citation.title || citation.url}
+                                      {citation.title || citation.url || citation.document_title}
                                     </a>
                                     {citation.cited_text && (
                                       <p className="text-gray-500 italic">"{citation.cited_text}"</p>
@@ -140,6 +279,20 @@ export default function TestPage() {
                             )}
                           </div>
                         )}
+                        {block.type === 'image' && block.source.type === 'file' && (
+                          <p className="text-sm text-gray-700">🖼️ Uploaded image ({block.source.file_id})</p>
+                        )}
+                        {block.type === 'image' && block.source.type === 'base64' && (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={`data:${block.source.media_type};base64,${block.source.data}`}
+                            alt="Attached image"
+                            className="max-h-48 rounded"
+                          />
+                        )}
+                        {block.type === 'document' && (
+                          <p className="text-sm text-gray-700">📄 {block.title || 'Document'}</p>
+                        )}
                         {block.type === 'thinking' && (
                           <details className="bg-blue-50 p-2 rounded border border-blue-200">
                             <summary className="cursor-pointer text-sm font-medium text-blue-800">
@@ -150,7 +303,21 @@ export default function TestPage() {
                             </p>
                           </details>
                         )}
-                        {(block.type === 'tool_use' || block.type === 'server_tool_use') && (
+                        {block.type === 'redacted_thinking' && (
+                          <div className="bg-gray-50 p-2 rounded border border-gray-200">
+                            <p className="text-sm font-medium text-gray-700">🔒 Reasoning redacted</p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              Part of the thinking was encrypted for safety reasons. It is kept and sent back so the model can continue from it.
+                            </p>
+                          </div>
+                        )}
+                        {block.type === 'server_tool_use' && block.name === 'code_execution' && (
+                          <CodeExecutionResult toolUse={block} result={findCodeExecutionResult(msg.content, block.id)} />
+                        )}
+                        {block.type === 'code_execution_tool_result' && !hasServerToolUse(msg.content, block.tool_use_id) && (
+                          <CodeExecutionResult result={block} />
+                        )}
+                        {(block.type === 'tool_use' || (block.type === 'server_tool_use' && block.name !== 'code_execution')) && (
                           <div className="bg-yellow-50 p-2 rounded border border-yellow-200">
                             <p className="text-sm font-medium text-yellow-800">
                               🔧 Tool: {block.name} {block.type === 'server_tool_use' && '(server)'}
@@ -162,30 +329,58 @@ export default function TestPage() {
                             )}
                           </div>
                         )}
-                        {block.type === 'web_search_tool_result' && (
-                          <div className="bg-green-50 p-2 rounded border border-green-200">
-                            <p className="text-sm font-medium text-green-800 mb-2">
-                              🔍 Search Results
+                        {block.type === 'tool_result' && (
+                          <div className={`p-2 rounded border ${block.is_error ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'}`}>
+                            <p className={`text-sm font-medium ${block.is_error ? 'text-red-800' : 'text-yellow-800'}`}>
+                              📤 Tool result {block.is_error && '(error)'}
                             </p>
-                            {block.content && block.content.map((result: any, resIdx: number) => (
-                              <div key={resIdx} className="mb-2 text-sm">
-                                {result.type === 'web_search_result' && (
-                                  <div className="pl-2 border-l-2 border-green-300">
-                                    <a href={result.url} target="_blank" rel="noopener noreferrer"
-                                       className="font-medium text-green-700 hover:underline">
-                                      {result.title}
-                                    </a>
-                                    {result.snippet && (
-                                      <p className="text-gray-600 text-xs mt-1">{result.snippet}</p>
-                                    )}
-                                  </div>
-                                )}
-                              </div>
-                            ))}
+                            <pre className="text-xs text-gray-700 mt-1 whitespace-pre-wrap">
+                              {typeof block.content === 'string' ? block.content : JSON.stringify(block.content, null, 2)}
+                            </pre>
                           </div>
                         )}
+                        {block.type === 'web_search_tool_result' && (
+                          <p className={`text-sm ${Array.isArray(block.content) ? 'text-green-800' : 'text-red-700'}`}>
+                            🔍 {Array.isArray(block.content)
+                              ? `${block.content.length} search results`
+                              : describeSearchError(block.content.error_code)}
+                          </p>
+                        )}
                       </div>
                     ))}
+                    {msg.role === 'assistant' && <SourcesPanel content={msg.content} />}
+                    <div className="flex items-center gap-2 text-xs text-gray-600">
+                      {getSiblingPosition(msg.id).total > 1 && (
+                        <span className="flex items-center gap-1">
+                          <button onClick={() => selectSibling(msg.id, -1)} disabled={streaming}>‹</button>
+                          {getSiblingPosition(msg.id).index + 1}/{getSiblingPosition(msg.id).total}
+                          <button onClick={() => selectSibling(msg.id, 1)} disabled={streaming}>›</button>
+                        </span>
+                      )}
+                      {msg.role === 'assistant' && msg.stop_reason === 'error' && (
+                        <button onClick={() => alertIfRefused(retryMessage(msg.id))} disabled={streaming} className="underline text-red-600 disabled:opacity-50">
+                          Retry
+                        </button>
+                      )}
+                      {msg.role === 'assistant' && (
+                        <button onClick={() => alertIfRefused(regenerateMessage(msg.id))} disabled={streaming} className="underline disabled:opacity-50">
+                          Regenerate
+                        </button>
+                      )}
+                      {msg.role === 'user' && msg.content.some((block: { type: string }) => block.type === 'text') && (
+                        <button
+                          onClick={() => {
+                            const current = msg.content.find((block: { type: string }) => block.type === 'text')
+                            const newContent = window.prompt('Edit message', current?.type === 'text' ? current.text : '')
+                            if (newContent?.trim()) alertIfRefused(editMessage(msg.id, newContent))
+                          }}
+                          disabled={streaming}
+                          className="underline disabled:opacity-50"
+                        >
+                          Edit
+                        </button>
+                      )}
+                    </div>
                   </div>
                 ))}
                 {streamingMessage && (
@@ -209,11 +404,24 @@ export default function TestPage() {
                               </p>
                             </details>
                           )}
-                          {(block.type === 'server_tool_use' || block.type === 'tool_use') && (
+                          {block.type === 'redacted_thinking' && (
+                            <div className="bg-gray-50 p-2 rounded border border-gray-200">
+                              <p className="text-sm font-medium text-gray-700">🔒 Reasoning redacted</p>
+                            </div>
+                          )}
+                          {block.type === 'server_tool_use' && block.name === 'code_execution' && (
+                            <CodeExecutionResult toolUse={block} result={findCodeExecutionResult(streamingMessage.content, block.id)} />
+                          )}
+                          {(block.type === 'tool_use' || (block.type === 'server_tool_use' && block.name !== 'code_execution')) && (
                             <div className="bg-yellow-50 p-2 rounded border border-yellow-200 animate-pulse">
                               <p className="text-sm font-medium text-yellow-800">
                                 🔧 Using {block.name}...
                               </p>
+                              {block.input && Object.keys(block.input).length > 0 && (
+                                <pre className="text-xs text-yellow-700 mt-1 whitespace-pre-wrap">
+                                  {block.input.query ?? block.input.code ?? JSON.stringify(block.input, null, 2)}
+                                </pre>
+                              )}
                             </div>
                           )}
                         </div>
@@ -258,6 +466,23 @@ export default function TestPage() {
             >
               Switch View
             </button>
+            <button
+              onClick={() => setActiveModal('settings')}
+              className="px-3 py-1 bg-gray-700 text-white rounded text-sm"
+            >
+              Settings
+            </button>
+            <button
+              onClick={() => {
+                const thread = threads.find(t => t.id === selectedThreadId)
+                const title = thread && window.prompt('Rename thread', thread.title)
+                if (thread && title) renameThread(thread.id, title)
+              }}
+              disabled={!selectedThreadId}
+              className="px-3 py-1 bg-teal-500 text-white rounded text-sm disabled:bg-gray-300"
+            >
+              Rename Thread
+            </button>
           </div>
         </div>
       </div>
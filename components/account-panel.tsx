@@ -0,0 +1,137 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useChatStore } from '@/store/chat'
+import type { User } from '@/lib/users'
+import type { ApiToken } from '@/lib/api-tokens'
+
+interface Session {
+  user: User
+  quota: { tokensToday: number, dailyTokenQuota: number | null }
+}
+
+// Sign in and out, today's token quota, and the user's API tokens
+export default function AccountPanel() {
+  const loadThreads = useChatStore((state) => state.loadThreads)
+  const clearLocalData = useChatStore((state) => state.clearLocalData)
+
+  const [session, setSession] = useState<Session | null>(null)
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [tokenName, setTokenName] = useState('')
+  // A new token's bearer value, shown once
+  const [newTokenValue, setNewTokenValue] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    const response = await fetch('/api/auth/session')
+    if (!response.ok) {
+      setSession(null)
+      setTokens([])
+      return
+    }
+    setSession(await response.json())
+    const tokensResponse = await fetch('/api/auth/tokens')
+    if (tokensResponse.ok) setTokens((await tokensResponse.json()).tokens)
+  }, [])
+
+  useEffect(() => {
+    refresh().catch(console.error)
+  }, [refresh])
+
+  const login = async () => {
+    setError(null)
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    })
+    if (!response.ok) {
+      setError((await response.json().catch(() => ({}))).error ?? response.statusText)
+      return
+    }
+    setPassword('')
+    await refresh()
+    await loadThreads()
+  }
+
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' })
+    // Conversations are kept in the browser too; the next user must not see them
+    clearLocalData()
+    setNewTokenValue(null)
+    await refresh()
+  }
+
+  const createToken = async () => {
+    const response = await fetch('/api/auth/tokens', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: tokenName })
+    })
+    if (!response.ok) return
+    setNewTokenValue((await response.json()).value)
+    setTokenName('')
+    await refresh()
+  }
+
+  const revokeToken = async (tokenId: string) => {
+    await fetch(`/api/auth/tokens/${tokenId}`, { method: 'DELETE' })
+    await refresh()
+  }
+
+  if (!session) {
+    return (
+      <div className="bg-white p-4 rounded-lg shadow space-y-2">
+        <h2 className="font-semibold text-gray-900">Sign In</h2>
+        <div className="flex gap-2">
+          <input value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" className="p-2 border rounded" />
+          <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" className="p-2 border rounded" />
+          <button onClick={login} className="px-4 py-2 bg-blue-500 text-white rounded">Sign in</button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    )
+  }
+
+  const { tokensToday, dailyTokenQuota } = session.quota
+  return (
+    <div className="bg-white p-4 rounded-lg shadow space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900">Signed in as {session.user.name}</h2>
+        <button onClick={logout} className="px-3 py-1 bg-gray-100 rounded">Sign out</button>
+      </div>
+      <p className="text-gray-600">
+        Tokens today: {tokensToday.toLocaleString()}
+        {dailyTokenQuota !== null && ` / ${dailyTokenQuota.toLocaleString()}`}
+      </p>
+
+      <div className="space-y-1">
+        <p className="font-medium">API tokens</p>
+        {tokens.map((token) => (
+          <div key={token.id} className="flex items-center gap-2">
+            <span className={token.revokedAt ? 'line-through text-gray-400' : ''}>{token.name}</span>
+            <span className="text-xs text-gray-500">
+              {token.lastUsedAt ? `last used ${new Date(token.lastUsedAt).toLocaleString()}` : 'never used'}
+            </span>
+            {!token.revokedAt && (
+              <button onClick={() => revokeToken(token.id)} className="text-xs text-red-600 hover:underline">Revoke</button>
+            )}
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <input value={tokenName} onChange={(e) => setTokenName(e.target.value)} placeholder="Token name" className="p-1 border rounded" />
+          <button onClick={createToken} disabled={!tokenName.trim()} className="px-3 py-1 bg-blue-500 text-white rounded disabled:bg-gray-300">
+            Create token
+          </button>
+        </div>
+        {newTokenValue && (
+          <p className="text-xs break-all bg-yellow-50 p-2 rounded">
+            Copy this token now, it won&apos;t be shown again: <code>{newTokenValue}</code>
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
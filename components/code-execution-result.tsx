@@ -0,0 +1,82 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type {
+  BetaCodeExecutionToolResultBlock,
+  BetaServerToolUseBlock
+} from '@anthropic-ai/sdk/resources/beta/messages/messages'
+import { toCodeExecutionOutcome, fileContentUrl } from '@/lib/code-execution'
+
+interface CodeExecutionResultProps {
+  // The call that ran the code; missing when only the result was kept
+  toolUse?: BetaServerToolUseBlock
+  // Missing while the code is still running
+  result?: BetaCodeExecutionToolResultBlock
+}
+
+// Download link for a file the code created, labelled with its name once the metadata loads
+function OutputFile({ fileId }: { fileId: string }) {
+  const [filename, setFilename] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/files/${encodeURIComponent(fileId)}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled && data?.file?.filename) setFilename(data.file.filename)
+      })
+      .catch(() => {})
+    return () => { cancelled = true }
+  }, [fileId])
+
+  return (
+    <a href={fileContentUrl(fileId)} download className="text-blue-600 hover:underline">
+      📎 {filename ?? fileId}
+    </a>
+  )
+}
+
+// A code_execution call with its code, output and created files
+export default function CodeExecutionResult({ toolUse, result }: CodeExecutionResultProps) {
+  const code = (toolUse?.input as { code?: unknown } | undefined)?.code
+  const outcome = result ? toCodeExecutionOutcome(result) : null
+  const failed = outcome?.type === 'error' || (outcome?.type === 'result' && outcome.returnCode !== 0)
+
+  return (
+    <div className={`p-2 rounded border ${failed ? 'bg-red-50 border-red-200' : 'bg-slate-50 border-slate-200'}`}>
+      <p className={`text-sm font-medium ${failed ? 'text-red-800' : 'text-slate-800'}`}>
+        🐍 Code execution
+        {!outcome && <span className="ml-2 text-xs text-slate-500 animate-pulse">running…</span>}
+        {outcome?.type === 'result' && (
+          <span className="ml-2 text-xs font-normal">exit code {outcome.returnCode}</span>
+        )}
+      </p>
+      {typeof code === 'string' && (
+        <pre className="text-xs bg-white text-gray-800 mt-1 p-2 rounded border border-slate-200 overflow-x-auto">
+          {code}
+        </pre>
+      )}
+      {outcome?.type === 'error' && (
+        <p className="text-sm text-red-700 mt-1">{outcome.message}</p>
+      )}
+      {outcome?.type === 'result' && (
+        <>
+          {outcome.stdout && (
+            <pre className="text-xs text-gray-800 mt-1 whitespace-pre-wrap">{outcome.stdout}</pre>
+          )}
+          {outcome.stderr && (
+            <pre className="text-xs text-red-700 mt-1 whitespace-pre-wrap">{outcome.stderr}</pre>
+          )}
+          {!outcome.stdout && !outcome.stderr && outcome.fileIds.length === 0 && (
+            <p className="text-xs text-gray-500 mt-1">No output</p>
+          )}
+          {outcome.fileIds.length > 0 && (
+            <div className="mt-1 text-sm flex flex-col gap-1">
+              {outcome.fileIds.map(fileId => <OutputFile key={fileId} fileId={fileId} />)}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
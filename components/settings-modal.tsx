@@ -0,0 +1,318 @@
+'use client'
+
+import { useState } from 'react'
+import { useChatStore } from '@/store/chat'
+import {
+  MODELS, CONTEXT_STRATEGIES, validateSettings,
+  type ChatSettings, type ContextStrategy, type ServerToolName, type UserLocation, type WebSearchSettings
+} from '@/lib/settings'
+import { extractVariables } from '@/lib/prompts'
+
+// Empty inputs mean "not set" for the optional sampling parameters
+const parseOptionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value)
+
+const parseDomains = (value: string) => value.split('\n').map(domain => domain.trim()).filter(Boolean)
+
+const LOCATION_FIELDS: { field: keyof UserLocation, label: string, placeholder: string }[] = [
+  { field: 'city', label: 'City', placeholder: 'San Francisco' },
+  { field: 'region', label: 'Region', placeholder: 'California' },
+  { field: 'country', label: 'Country', placeholder: 'US' },
+  { field: 'timezone', label: 'Time zone', placeholder: 'America/Los_Angeles' }
+]
+
+export default function SettingsModal() {
+  const selectedThreadId = useChatStore((state) => state.selectedThreadId)
+  const threads = useChatStore((state) => state.threads)
+  const defaultSettings = useChatStore((state) => state.defaultSettings)
+  const updateThreadSettings = useChatStore((state) => state.updateThreadSettings)
+  const updateDefaultSettings = useChatStore((state) => state.updateDefaultSettings)
+  const setSystemPrompt = useChatStore((state) => state.setSystemPrompt)
+  const presets = useChatStore((state) => state.presets)
+  const setActiveModal = useChatStore((state) => state.setActiveModal)
+  const currentSpendCap = useChatStore((state) => state.spendCap)
+  const setSpendCap = useChatStore((state) => state.setSpendCap)
+
+  // Edit the selected thread, or the global defaults when no thread is selected
+  const thread = threads.find(t => t.id === selectedThreadId)
+  const [settings, setSettings] = useState<ChatSettings>(thread?.settings ?? defaultSettings)
+  const [saveAsDefault, setSaveAsDefault] = useState(!thread)
+  const [systemPrompt, setSystemPromptDraft] = useState(thread?.systemPrompt ?? '')
+  const [promptVariables, setPromptVariables] = useState(thread?.promptVariables ?? {})
+  const [spendCap, setSpendCapDraft] = useState(currentSpendCap?.toString() ?? '')
+
+  const parsedSpendCap = parseOptionalNumber(spendCap)
+  const errors = [
+    ...validateSettings(settings),
+    ...(parsedSpendCap !== undefined && !(parsedSpendCap > 0) ? ['Daily spend cap must be a positive amount'] : [])
+  ]
+  const update = (updates: Partial<ChatSettings>) => setSettings((current) => ({ ...current, ...updates }))
+  const updateWebSearch = (updates: Partial<WebSearchSettings>) =>
+    setSettings((current) => ({ ...current, webSearch: { ...current.webSearch, ...updates } }))
+  const updateLocation = (field: keyof UserLocation, value: string) =>
+    updateWebSearch({ user_location: { ...settings.webSearch.user_location, [field]: value || undefined } })
+
+  const save = () => {
+    if (errors.length > 0) return
+    if (thread) {
+      updateThreadSettings(thread.id, settings)
+      setSystemPrompt(thread.id, systemPrompt, promptVariables)
+    }
+    if (saveAsDefault) updateDefaultSettings(settings)
+    setSpendCap(parsedSpendCap ?? null)
+    setActiveModal(null)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-10">
+      <div className="bg-white rounded-lg shadow-lg p-4 w-full max-w-lg space-y-3 text-sm text-gray-900">
+        <h2 className="font-semibold text-lg">
+          {thread ? `Settings for "${thread.title}"` : 'Default Settings'}
+        </h2>
+
+        {thread && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">System prompt</span>
+              <select
+                value=""
+                onChange={(e) => {
+                  const preset = presets.find(p => p.id === e.target.value)
+                  if (preset) setSystemPromptDraft(preset.template)
+                }}
+                className="p-1 border rounded"
+              >
+                <option value="">Load preset...</option>
+                {presets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              value={systemPrompt}
+              onChange={(e) => setSystemPromptDraft(e.target.value)}
+              rows={3}
+              placeholder="No system prompt"
+              className="w-full p-2 border rounded"
+            />
+            {/* {{date}} is filled in automatically when sending */}
+            {extractVariables(systemPrompt).filter(name => name !== 'date').map((name) => (
+              <label key={name} className="flex items-center gap-2">
+                <span className="w-32 font-mono">{name}</span>
+                <input
+                  value={promptVariables[name] ?? ''}
+                  onChange={(e) => setPromptVariables({ ...promptVariables, [name]: e.target.value })}
+                  className="flex-1 p-1 border rounded"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
+        <label className="block">
+          <span className="font-medium">Model</span>
+          <select
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value })}
+            className="mt-1 w-full p-2 border rounded"
+          >
+            {MODELS.map((model) => (
+              <option key={model.id} value={model.id}>{model.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="font-medium">Max tokens</span>
+            <input
+              type="number"
+              value={settings.max_tokens}
+              onChange={(e) => update({ max_tokens: Number(e.target.value) })}
+              className="mt-1 w-full p-2 border rounded"
+            />
+          </label>
+          <label className="block">
+            <span className="font-medium">Temperature</span>
+            <input
+              type="number"
+              step="0.1"
+              placeholder="default"
+              value={settings.temperature ?? ''}
+              onChange={(e) => update({ temperature: parseOptionalNumber(e.target.value) })}
+              className="mt-1 w-full p-2 border rounded"
+            />
+          </label>
+          <label className="block">
+            <span className="font-medium">Top P</span>
+            <input
+              type="number"
+              step="0.01"
+              placeholder="default"
+              value={settings.top_p ?? ''}
+              onChange={(e) => update({ top_p: parseOptionalNumber(e.target.value) })}
+              className="mt-1 w-full p-2 border rounded"
+            />
+          </label>
+          <label className="block">
+            <span className="font-medium">Top K</span>
+            <input
+              type="number"
+              placeholder="default"
+              value={settings.top_k ?? ''}
+              onChange={(e) => update({ top_k: parseOptionalNumber(e.target.value) })}
+              className="mt-1 w-full p-2 border rounded"
+            />
+          </label>
+        </div>
+
+        <label className="block">
+          <span className="font-medium">Stop sequences (one per line)</span>
+          <textarea
+            value={settings.stop_sequences.join('\n')}
+            onChange={(e) => update({ stop_sequences: e.target.value.split('\n').filter(Boolean) })}
+            rows={2}
+            className="mt-1 w-full p-2 border rounded"
+          />
+        </label>
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.thinking.enabled}
+              onChange={(e) => update({ thinking: { ...settings.thinking, enabled: e.target.checked } })}
+            />
+            <span className="font-medium">Extended thinking</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <span>Budget</span>
+            <input
+              type="number"
+              value={settings.thinking.budget_tokens}
+              disabled={!settings.thinking.enabled}
+              onChange={(e) => update({ thinking: { ...settings.thinking, budget_tokens: Number(e.target.value) } })}
+              className="w-28 p-1 border rounded disabled:bg-gray-100"
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <span className="font-medium">Server tools</span>
+          {(Object.keys(settings.serverTools) as ServerToolName[]).map((name) => (
+            <label key={name} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={settings.serverTools[name]}
+                onChange={(e) => update({ serverTools: { ...settings.serverTools, [name]: e.target.checked } })}
+              />
+              {name}
+            </label>
+          ))}
+        </div>
+
+        {settings.serverTools.web_search && (
+          <fieldset className="space-y-2 border rounded p-2">
+            <legend className="font-medium px-1">Web search</legend>
+            <label className="flex items-center gap-2">
+              <span>Max searches per reply</span>
+              <input
+                type="number"
+                placeholder="no limit"
+                value={settings.webSearch.max_uses ?? ''}
+                onChange={(e) => updateWebSearch({ max_uses: parseOptionalNumber(e.target.value) })}
+                className="w-28 p-1 border rounded"
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span>Only these domains (one per line)</span>
+                <textarea
+                  value={settings.webSearch.allowed_domains.join('\n')}
+                  onChange={(e) => updateWebSearch({ allowed_domains: parseDomains(e.target.value) })}
+                  rows={2}
+                  placeholder="any"
+                  className="mt-1 w-full p-2 border rounded"
+                />
+              </label>
+              <label className="block">
+                <span>Never these domains</span>
+                <textarea
+                  value={settings.webSearch.blocked_domains.join('\n')}
+                  onChange={(e) => updateWebSearch({ blocked_domains: parseDomains(e.target.value) })}
+                  rows={2}
+                  placeholder="none"
+                  className="mt-1 w-full p-2 border rounded"
+                />
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {LOCATION_FIELDS.map(({ field, label, placeholder }) => (
+                <label key={field} className="block">
+                  <span>{label}</span>
+                  <input
+                    value={settings.webSearch.user_location?.[field] ?? ''}
+                    placeholder={placeholder}
+                    onChange={(e) => updateLocation(field, field === 'country' ? e.target.value.toUpperCase() : e.target.value)}
+                    className="mt-1 w-full p-1 border rounded"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">The server may limit searches and domains further.</p>
+          </fieldset>
+        )}
+
+        <label className="block">
+          <span className="font-medium">When the thread outgrows the context window</span>
+          <select
+            value={settings.contextStrategy}
+            onChange={(e) => update({ contextStrategy: e.target.value as ContextStrategy })}
+            className="mt-1 w-full p-2 border rounded"
+          >
+            {CONTEXT_STRATEGIES.map((strategy) => (
+              <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2">
+          <span className="font-medium">Daily spend cap (USD)</span>
+          <input
+            type="number"
+            step="0.01"
+            placeholder="no limit"
+            value={spendCap}
+            onChange={(e) => setSpendCapDraft(e.target.value)}
+            className="w-28 p-1 border rounded"
+          />
+        </label>
+
+        {thread && (
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={saveAsDefault} onChange={(e) => setSaveAsDefault(e.target.checked)} />
+            Also use for new threads
+          </label>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="text-red-600 list-disc list-inside">
+            {errors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setActiveModal(null)} className="px-3 py-1 bg-gray-200 rounded">
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={errors.length > 0}
+            className="px-3 py-1 bg-blue-500 text-white rounded disabled:bg-gray-300"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import type { BetaContentBlock } from '@anthropic-ai/sdk/resources/beta/messages/messages'
+import { collectSources } from '@/lib/web-search'
+
+const hostname = (url: string) => {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return url
+  }
+}
+
+// The pages a reply's web searches found, cited ones first, each with the passages quoted from it
+export default function SourcesPanel({ content }: { content: BetaContentBlock[] }) {
+  const sources = collectSources(content)
+  if (sources.length === 0) return null
+  const cited = sources.filter(source => source.citedTexts.length > 0)
+  const ordered = [...cited, ...sources.filter(source => source.citedTexts.length === 0)]
+
+  return (
+    <details className="bg-green-50 p-2 rounded border border-green-200 mb-2">
+      <summary className="cursor-pointer text-sm font-medium text-green-800">
+        🔍 Sources ({sources.length}, {cited.length} cited)
+      </summary>
+      <ol className="mt-2 space-y-2 text-sm list-decimal list-inside">
+        {ordered.map((source) => (
+          <li key={source.url}>
+            <a href={source.url} target="_blank" rel="noopener noreferrer" className="font-medium text-green-700 hover:underline">
+              {source.title}
+            </a>
+            <span className="text-xs text-gray-500">
+              {' '}· {hostname(source.url)}
+              {source.pageAge && ` · ${source.pageAge}`}
+              {source.query && ` · found by “${source.query}”`}
+            </span>
+            {source.citedTexts.map((text) => (
+              <blockquote key={text} className="ml-4 mt-1 pl-2 border-l-2 border-green-300 text-xs text-gray-600 italic">
+                {text}
+              </blockquote>
+            ))}
+          </li>
+        ))}
+      </ol>
+    </details>
+  )
+}
@@ -0,0 +1,22 @@
+import Anthropic, { type ClientOptions } from '@anthropic-ai/sdk'
+
+// Anthropic client using the server-side API key, or null when the key is not configured
+export function createAnthropicClient(options: ClientOptions = {}): Anthropic | null {
+  const apiKey = process.env.ANTHROPIC_API_KEY
+  if (!apiKey) return null
+  return new Anthropic({ ...options, apiKey })
+}
+
+// anthropic-beta header values for the feature names clients send
+const BETA_HEADERS: Record<string, string> = {
+  'web-search': 'web-search-2025-03-05',
+  'code-execution': 'code-execution-2025-05-22',
+  'files': 'files-api-2025-04-14',
+  'thinking': 'interleaved-thinking-2025-05-14'
+}
+
+export const BETA_FEATURES = Object.keys(BETA_HEADERS)
+
+export function toBetaHeaders(betaFeatures: string[]): string[] {
+  return betaFeatures.flatMap(feature => BETA_HEADERS[feature] ? [BETA_HEADERS[feature]] : [])
+}
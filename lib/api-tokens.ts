@@ -0,0 +1,78 @@
+import { createJSONFile, getDataPath } from '@/lib/json-file'
+import { getSingleton } from '@/lib/singleton'
+
+// Bearer token record; the token itself is a signed credential naming this record
+// (see lib/session.ts) and is only shown once, when created
+export interface ApiToken {
+  id: string
+  userId: string
+  name: string
+  createdAt: string
+  lastUsedAt: string | null
+  revokedAt: string | null
+}
+
+export interface ApiTokenStore {
+  listTokens: (userId: string) => Promise<ApiToken[]>
+  createToken: (userId: string, name: string) => Promise<ApiToken>
+  // Records the use; null when the token doesn't exist or was revoked
+  useToken: (tokenId: string) => Promise<ApiToken | null>
+  revokeToken: (userId: string, tokenId: string) => Promise<ApiToken | null>
+}
+
+// lastUsedAt is only rewritten after this long, so busy tokens don't save on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+export function createJSONFileTokenStore(filePath: string): ApiTokenStore {
+  const { run } = createJSONFile<Record<string, ApiToken>>(filePath, () => ({}))
+
+  return {
+    listTokens: (userId) => run(async (tokens) =>
+      Object.values(tokens)
+        .filter(token => token.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    ),
+
+    createToken: (userId, name) => run(async (tokens, save) => {
+      const token: ApiToken = {
+        id: `tok_${crypto.randomUUID()}`,
+        userId,
+        name,
+        createdAt: new Date().toISOString(),
+        lastUsedAt: null,
+        revokedAt: null
+      }
+      tokens[token.id] = token
+      await save()
+      return token
+    }),
+
+    useToken: (tokenId) => run(async (tokens, save) => {
+      const token = tokens[tokenId]
+      if (!token || token.revokedAt) return null
+      const now = Date.now()
+      if (!token.lastUsedAt || now - Date.parse(token.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+        token.lastUsedAt = new Date(now).toISOString()
+        await save()
+      }
+      return token
+    }),
+
+    revokeToken: (userId, tokenId) => run(async (tokens, save) => {
+      const token = tokens[tokenId]
+      if (!token || token.userId !== userId) return null
+      if (!token.revokedAt) {
+        token.revokedAt = new Date().toISOString()
+        await save()
+      }
+      return token
+    })
+  }
+}
+
+// Shared store instance for route handlers
+export function getApiTokenStore(): ApiTokenStore {
+  return getSingleton('apiTokenStore', () =>
+    createJSONFileTokenStore(getDataPath(process.env.TOKEN_STORAGE_PATH, 'tokens.json'))
+  )
+}
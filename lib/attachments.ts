@@ -0,0 +1,134 @@
+import type { BetaContentBlockParam } from '@anthropic-ai/sdk/resources/beta/messages/messages'
+
+// MIME types the Messages API accepts for image blocks
+export const IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const
+
+// API limits: 5 MB per image, 32 MB per request (PDFs are bounded by the request size)
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+export const MAX_REQUEST_BYTES = 32 * 1024 * 1024
+
+// Attachments larger than this are uploaded through the Files API and referenced by file_id
+export const FILE_UPLOAD_THRESHOLD_BYTES = 1024 * 1024
+
+// Uploaded file as held in the store. `content` is base64 for images and PDFs,
+// and the decoded text for plain-text documents. `fileId` is set once the file
+// lives in the Files API, after which `content` is no longer sent.
+export interface Attachment {
+  id: string
+  name: string
+  type: string
+  size: number
+  content?: string
+  fileId?: string
+}
+
+type AttachmentKind = 'image' | 'pdf' | 'text'
+
+function isTextType(type: string) {
+  return type.startsWith('text/') || type === 'application/json'
+}
+
+export function getAttachmentKind(type: string): AttachmentKind | null {
+  if ((IMAGE_MEDIA_TYPES as readonly string[]).includes(type)) return 'image'
+  if (type === 'application/pdf') return 'pdf'
+  if (isTextType(type)) return 'text'
+  return null
+}
+
+// Returns a user-facing reason the attachment can't be sent, or null if it is valid
+export function validateAttachment(attachment: Attachment): string | null {
+  const kind = getAttachmentKind(attachment.type)
+  if (!kind) return `${attachment.name}: unsupported file type ${attachment.type || 'unknown'}`
+  if (kind === 'image' && attachment.size > MAX_IMAGE_BYTES) {
+    return `${attachment.name}: images must be 5 MB or smaller`
+  }
+  if (attachment.size > MAX_REQUEST_BYTES) {
+    return `${attachment.name}: files must be 32 MB or smaller`
+  }
+  return null
+}
+
+// Size of the attachments once encoded into the request body
+export function encodedSize(attachments: Attachment[]): number {
+  return attachments.reduce((total, attachment) =>
+    total + (attachment.fileId ? 0 : attachment.content?.length ?? 0), 0)
+}
+
+// Large files are uploaded once instead of being re-sent inline every turn
+export function shouldUpload(attachment: Attachment): boolean {
+  return !attachment.fileId && attachment.size > FILE_UPLOAD_THRESHOLD_BYTES
+}
+
+// Upload the attachment through /api/files and return it with its file_id
+export async function uploadAttachment(attachment: Attachment): Promise<Attachment> {
+  const data = attachment.content ?? ''
+  const body = isTextType(attachment.type)
+    ? data
+    : Uint8Array.from(atob(data), char => char.charCodeAt(0))
+
+  const formData = new FormData()
+  formData.append('file', new File([body], attachment.name, { type: attachment.type }))
+
+  const response = await fetch('/api/files', { method: 'POST', body: formData })
+  if (!response.ok) {
+    throw new Error(`File upload failed: ${response.statusText}`)
+  }
+  const { file } = await response.json()
+  return { ...attachment, fileId: file.id }
+}
+
+// Read a browser File into an Attachment
+export async function readAttachment(file: File): Promise<Attachment> {
+  const attachment: Attachment = {
+    id: `att_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: file.name,
+    type: file.type,
+    size: file.size
+  }
+
+  if (isTextType(file.type)) {
+    attachment.content = await file.text()
+  } else {
+    // Base64-encode in chunks; spreading a large buffer into fromCharCode overflows the stack
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+    attachment.content = btoa(binary)
+  }
+  return attachment
+}
+
+// Convert an attachment into the matching image or document content block
+export function toContentBlock(attachment: Attachment): BetaContentBlockParam {
+  const data = attachment.content ?? ''
+  const fileSource = attachment.fileId ? { type: 'file' as const, file_id: attachment.fileId } : null
+  switch (getAttachmentKind(attachment.type)) {
+    case 'image':
+      return {
+        type: 'image',
+        source: fileSource ?? {
+          type: 'base64',
+          media_type: attachment.type as typeof IMAGE_MEDIA_TYPES[number],
+          data
+        }
+      }
+    case 'pdf':
+      return {
+        type: 'document',
+        source: fileSource ?? { type: 'base64', media_type: 'application/pdf', data },
+        title: attachment.name,
+        citations: { enabled: true }
+      }
+    case 'text':
+      return {
+        type: 'document',
+        source: fileSource ?? { type: 'text', media_type: 'text/plain', data },
+        title: attachment.name,
+        citations: { enabled: true }
+      }
+    default:
+      throw new Error(`Unsupported attachment type: ${attachment.type}`)
+  }
+}
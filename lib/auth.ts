@@ -0,0 +1,21 @@
+import { USER_ID_HEADER, TOKEN_ID_HEADER } from '@/lib/session'
+import { getUserProvider, type User } from '@/lib/users'
+import { getApiTokenStore } from '@/lib/api-tokens'
+
+// The signed-in user of a request that passed the middleware. Null for revoked tokens and
+// for users that no longer exist.
+export async function getRequestUser(request: Request): Promise<User | null> {
+  const userId = request.headers.get(USER_ID_HEADER)
+  if (!userId) return null
+
+  const tokenId = request.headers.get(TOKEN_ID_HEADER)
+  if (tokenId) {
+    const token = await getApiTokenStore().useToken(tokenId)
+    if (!token || token.userId !== userId) return null
+  }
+  return getUserProvider().getUser(userId)
+}
+
+export function unauthorized(): Response {
+  return Response.json({ error: 'Authentication required' }, { status: 401 })
+}
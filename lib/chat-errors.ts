@@ -0,0 +1,111 @@
+// The error module alone, so the client bundle doesn't pull in the whole SDK
+import { APIError } from '@anthropic-ai/sdk/error'
+
+// Error details sent from /api/chat to the client, keeping what the Anthropic API reported
+export interface ChatError {
+  // Anthropic error type, e.g. "overloaded_error" or "rate_limit_error"
+  type: string
+  message: string
+  // HTTP status of the failed request; null when the error arrived mid-stream
+  status: number | null
+  requestId: string | null
+  // Seconds to wait before retrying, from the retry-after header
+  retryAfter: number | null
+}
+
+// SSE event for a failed generation; the same shape as the API's own `error` event,
+// with the extra details inside `error`
+export interface ChatErrorEvent {
+  type: 'error'
+  error: ChatError
+}
+
+// Error types for HTTP statuses, for responses that don't carry an Anthropic error body
+const STATUS_ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  413: 'request_too_large',
+  429: 'rate_limit_error',
+  500: 'api_error',
+  529: 'overloaded_error'
+}
+
+const RETRYABLE_TYPES = new Set(['rate_limit_error', 'overloaded_error'])
+const RETRYABLE_STATUSES = new Set([429, 529])
+
+// Thrown on the client so callers can inspect the details
+export class ChatRequestError extends Error {
+  readonly detail: ChatError
+
+  constructor(detail: ChatError) {
+    super(detail.message)
+    this.name = 'ChatRequestError'
+    this.detail = detail
+  }
+}
+
+function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds)
+  // retry-after may also be an HTTP date
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, (date - Date.now()) / 1000)
+}
+
+// Server side: describe an error thrown by the SDK (or anything else)
+export function toChatError(error: unknown): ChatError {
+  if (error instanceof APIError) {
+    const body = error.error as { error?: { type?: string, message?: string } } | undefined
+    const status = typeof error.status === 'number' ? error.status : null
+    return {
+      type: body?.error?.type ?? (status ? STATUS_ERROR_TYPES[status] : undefined) ?? 'api_error',
+      message: body?.error?.message ?? error.message,
+      status,
+      requestId: error.requestID ?? null,
+      retryAfter: parseRetryAfter(error.headers?.get('retry-after'))
+    }
+  }
+  return {
+    type: 'api_error',
+    message: error instanceof Error ? error.message : 'Unknown error',
+    status: null,
+    requestId: null,
+    retryAfter: null
+  }
+}
+
+// Client side: describe a non-2xx JSON response from one of our routes
+export async function fromErrorResponse(response: Response): Promise<ChatError> {
+  const body = await response.json().catch(() => ({}))
+  // Routes send { error: string } for their own checks, or a ChatError for upstream failures
+  const error: Partial<ChatError> = typeof body.error === 'string' ? { message: body.error } : body.error ?? {}
+  return {
+    type: error.type ?? STATUS_ERROR_TYPES[response.status] ?? 'api_error',
+    message: error.message || response.statusText,
+    status: error.status ?? response.status,
+    requestId: error.requestId ?? response.headers.get('request-id'),
+    retryAfter: error.retryAfter ?? parseRetryAfter(response.headers.get('retry-after'))
+  }
+}
+
+export function isRetryable(error: ChatError): boolean {
+  return RETRYABLE_TYPES.has(error.type) || (error.status !== null && RETRYABLE_STATUSES.has(error.status))
+}
+
+const BASE_RETRY_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 30000
+
+// Exponential backoff with full jitter, never sooner than retry-after asks
+export function retryDelay(attempt: number, error: ChatError): number {
+  const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt)
+  const jittered = Math.random() * backoff
+  return Math.max(jittered, (error.retryAfter ?? 0) * 1000)
+}
+
+export function formatChatError(error: ChatError): string {
+  const details = [error.type, error.status, error.requestId && `request ${error.requestId}`].filter(Boolean)
+  return `${error.message} (${details.join(', ')})`
+}
@@ -0,0 +1,195 @@
+// What /api/chat accepts from clients. Requests are paid for with the server's API key, so
+// the models, token budgets, tools and beta features on offer are set on the server.
+import {
+  MODELS, SERVER_TOOL_TYPES, WEB_SEARCH_TOOL_TYPE, validateGenerationParams, validateWebSearchTool, type GenerationParams, type WebSearchTool
+} from '@/lib/settings'
+import { BETA_FEATURES } from '@/lib/anthropic'
+
+export interface ChatPolicy {
+  models: string[]
+  // Ceiling on max_tokens for every model, on top of each model's own limit
+  maxTokens: number
+  // Tool types clients may send; "custom" covers client-defined tools
+  toolTypes: string[]
+  betaFeatures: string[]
+  webSearch: WebSearchPolicy
+}
+
+// Limits on web search that apply whatever the client asks for
+export interface WebSearchPolicy {
+  // Only these domains (and their subdomains) may be searched; null allows any
+  allowedDomains: string[] | null
+  blockedDomains: string[]
+  // Ceiling on searches per request; null for the API's own limit
+  maxUses: number | null
+}
+
+export const CUSTOM_TOOL_TYPE = 'custom'
+
+// Comma-separated list from an environment variable, or the fallback when unset
+function readList(value: string | undefined, fallback: string[]): string[] {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean)
+  return items && items.length > 0 ? items : fallback
+}
+
+const toDomain = (domain: string) => domain.trim().toLowerCase().replace(/\.$/, '')
+
+// Configured with CHAT_ALLOWED_MODELS, CHAT_MAX_TOKENS, CHAT_ALLOWED_TOOL_TYPES and
+// CHAT_ALLOWED_BETAS; each defaults to everything the app supports. Web search is limited
+// with CHAT_WEB_SEARCH_ALLOWED_DOMAINS, CHAT_WEB_SEARCH_BLOCKED_DOMAINS and
+// CHAT_WEB_SEARCH_MAX_USES, and unlimited by default.
+export function getChatPolicy(): ChatPolicy {
+  const maxTokens = Number(process.env.CHAT_MAX_TOKENS)
+  const maxSearches = Number(process.env.CHAT_WEB_SEARCH_MAX_USES)
+  const allowedDomains = readList(process.env.CHAT_WEB_SEARCH_ALLOWED_DOMAINS, []).map(toDomain)
+  return {
+    models: readList(process.env.CHAT_ALLOWED_MODELS, MODELS.map(m => m.id)),
+    maxTokens: Number.isInteger(maxTokens) && maxTokens > 0 ? maxTokens : Infinity,
+    toolTypes: readList(process.env.CHAT_ALLOWED_TOOL_TYPES, [CUSTOM_TOOL_TYPE, ...SERVER_TOOL_TYPES]),
+    betaFeatures: readList(process.env.CHAT_ALLOWED_BETAS, BETA_FEATURES),
+    webSearch: {
+      allowedDomains: allowedDomains.length > 0 ? allowedDomains : null,
+      blockedDomains: readList(process.env.CHAT_WEB_SEARCH_BLOCKED_DOMAINS, []).map(toDomain),
+      maxUses: Number.isInteger(maxSearches) && maxSearches > 0 ? maxSearches : null
+    }
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// A domain covers itself and its subdomains, as in the API's domain filters
+const covers = (domains: string[], domain: string) =>
+  domains.some(listed => domain === listed || domain.endsWith(`.${listed}`))
+
+// The web_search tool narrowed to the server's policy: domains the server doesn't allow
+// are removed from the client's list, the server's blocked domains are added, and max_uses
+// is capped. Null when none of the domains the client asked for may be searched.
+export function restrictWebSearch(tool: WebSearchTool, policy: WebSearchPolicy): WebSearchTool | null {
+  const { allowed_domains: requested = [], blocked_domains: excludedByClient = [], ...restricted } = tool
+  const excluded = excludedByClient.map(toDomain)
+  if (policy.maxUses !== null) restricted.max_uses = Math.min(tool.max_uses ?? policy.maxUses, policy.maxUses)
+
+  if (policy.allowedDomains === null && requested.length === 0) {
+    const blocked = [...new Set([...policy.blockedDomains, ...excluded])]
+    return blocked.length > 0 ? { ...restricted, blocked_domains: blocked } : restricted
+  }
+
+  // The API takes an allow list or a block list, not both, so blocked domains are taken out
+  // of the allow list. A domain with a blocked subdomain goes too, since allowing it would
+  // allow the subdomain.
+  const allowed = requested.length > 0
+    ? requested.map(toDomain).filter(domain => policy.allowedDomains === null || covers(policy.allowedDomains, domain))
+    : policy.allowedDomains ?? []
+  const searchable = allowed.filter(domain =>
+    !covers(policy.blockedDomains, domain) &&
+    !policy.blockedDomains.some(blocked => covers([domain], blocked)) &&
+    !covers(excluded, domain)
+  )
+  return searchable.length > 0 ? { ...restricted, allowed_domains: [...new Set(searchable)] } : null
+}
+
+const isWebSearchTool = (tool: unknown): tool is WebSearchTool =>
+  isObject(tool) && tool.type === WEB_SEARCH_TOOL_TYPE
+
+// The request's tools with web search restricted to the policy; web search is left out
+// rather than sent unrestricted when nothing may be searched
+export function enforceWebSearchPolicy<T>(tools: T[], policy: ChatPolicy): T[] {
+  return tools.flatMap(tool => {
+    if (!isWebSearchTool(tool)) return [tool]
+    const restricted = restrictWebSearch(tool, policy.webSearch)
+    return restricted ? [restricted as unknown as T] : []
+  })
+}
+
+// The /api/chat request body
+export interface ChatRequest extends GenerationParams {
+  messages: { role: 'user' | 'assistant', content: string | { type: string }[] }[]
+  system?: string | { type: 'text', text: string }[]
+  threadId?: string
+  parentMessageId: string | null
+}
+
+function validateMessages(messages: unknown): string[] {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return ['messages must be a non-empty array']
+  }
+  const errors: string[] = []
+  messages.forEach((message, index) => {
+    if (!isObject(message) || (message.role !== 'user' && message.role !== 'assistant')) {
+      errors.push(`messages[${index}].role must be "user" or "assistant"`)
+      return
+    }
+    const { content } = message
+    const isValidContent = typeof content === 'string' || (
+      Array.isArray(content) && content.every(block => isObject(block) && typeof block.type === 'string')
+    )
+    if (!isValidContent) {
+      errors.push(`messages[${index}].content must be a string or an array of content blocks`)
+    }
+  })
+  return errors
+}
+
+function validateTools(tools: unknown, policy: ChatPolicy): string[] {
+  if (!Array.isArray(tools)) return ['tools must be an array']
+  const errors: string[] = []
+  tools.forEach((tool, index) => {
+    if (!isObject(tool) || typeof tool.name !== 'string' || !tool.name) {
+      errors.push(`tools[${index}] must have a name`)
+      return
+    }
+    const type = typeof tool.type === 'string' ? tool.type : CUSTOM_TOOL_TYPE
+    if (!policy.toolTypes.includes(type)) {
+      errors.push(`Tool type not allowed: ${type}`)
+    } else if (type === CUSTOM_TOOL_TYPE && !isObject(tool.input_schema)) {
+      errors.push(`tools[${index}].input_schema must be an object`)
+    } else if (type === WEB_SEARCH_TOOL_TYPE && validateWebSearchTool(tool as Partial<WebSearchTool>).length === 0 &&
+      !restrictWebSearch(tool as unknown as WebSearchTool, policy.webSearch)) {
+      errors.push('None of the requested web search domains may be searched under the server policy')
+    }
+  })
+  return errors
+}
+
+// Validate a request body against its shape and the server's policy; returns one message
+// per problem (empty when valid)
+export function validateChatRequest(body: Partial<ChatRequest>, policy: ChatPolicy): string[] {
+  const errors = validateMessages(body.messages)
+
+  // System prompt: a string or an array of text blocks
+  const { system } = body
+  const isValidSystem = system === undefined || typeof system === 'string' || (
+    Array.isArray(system) && system.every(block => block?.type === 'text' && typeof block.text === 'string')
+  )
+  if (!isValidSystem) errors.push('system must be a string or an array of text blocks')
+
+  errors.push(...validateGenerationParams(body))
+
+  if (typeof body.model === 'string' && !policy.models.includes(body.model)) {
+    errors.push(`Model not allowed: ${body.model}`)
+  }
+  if (typeof body.max_tokens === 'number' && body.max_tokens > policy.maxTokens) {
+    errors.push(`max_tokens may be at most ${policy.maxTokens}`)
+  }
+
+  errors.push(...validateTools(body.tools ?? [], policy))
+
+  const { betaFeatures = [] } = body
+  if (!Array.isArray(betaFeatures) || betaFeatures.some(feature => typeof feature !== 'string')) {
+    errors.push('betaFeatures must be an array of strings')
+  } else {
+    for (const feature of betaFeatures.filter(feature => !policy.betaFeatures.includes(feature))) {
+      errors.push(`Beta feature not allowed: ${feature}`)
+    }
+  }
+
+  if (body.threadId !== undefined && typeof body.threadId !== 'string') {
+    errors.push('threadId must be a string')
+  }
+  if (body.parentMessageId !== undefined && body.parentMessageId !== null && typeof body.parentMessageId !== 'string') {
+    errors.push('parentMessageId must be a string or null')
+  }
+
+  return errors
+}
@@ -0,0 +1,58 @@
+import type {
+  BetaCodeExecutionToolResultBlock,
+  BetaContentBlock,
+  BetaCodeExecutionToolResultErrorCode
+} from '@anthropic-ai/sdk/resources/beta/messages/messages'
+
+// What a finished code_execution call produced
+export type CodeExecutionOutcome =
+  | { type: 'result', stdout: string, stderr: string, returnCode: number, fileIds: string[] }
+  | { type: 'error', errorCode: BetaCodeExecutionToolResultErrorCode, message: string }
+
+const ERROR_MESSAGES: Record<BetaCodeExecutionToolResultErrorCode, string> = {
+  invalid_tool_input: 'The code could not be run because the tool input was invalid',
+  unavailable: 'Code execution is currently unavailable',
+  too_many_requests: 'Too many code executions, try again shortly',
+  execution_time_exceeded: 'The code timed out before it finished'
+}
+
+export function toCodeExecutionOutcome(block: BetaCodeExecutionToolResultBlock): CodeExecutionOutcome {
+  const { content } = block
+  if (content.type === 'code_execution_tool_result_error') {
+    return {
+      type: 'error',
+      errorCode: content.error_code,
+      message: ERROR_MESSAGES[content.error_code] ?? `Code execution failed: ${content.error_code}`
+    }
+  }
+  return {
+    type: 'result',
+    stdout: content.stdout,
+    stderr: content.stderr,
+    returnCode: content.return_code,
+    fileIds: content.content.map(output => output.file_id)
+  }
+}
+
+// Files created by the reply's code execution calls
+export function generatedFileIds(content: BetaContentBlock[]): string[] {
+  return content.flatMap(block => {
+    if (block.type !== 'code_execution_tool_result') return []
+    const outcome = toCodeExecutionOutcome(block)
+    return outcome.type === 'result' ? outcome.fileIds : []
+  })
+}
+
+// The result of a code_execution call, which arrives as a separate block naming the call by its ID
+export function findCodeExecutionResult(content: BetaContentBlock[], toolUseId: string): BetaCodeExecutionToolResultBlock | undefined {
+  return content.find((block): block is BetaCodeExecutionToolResultBlock =>
+    block.type === 'code_execution_tool_result' && block.tool_use_id === toolUseId
+  )
+}
+
+export function hasServerToolUse(content: BetaContentBlock[], toolUseId: string): boolean {
+  return content.some(block => block.type === 'server_tool_use' && block.id === toolUseId)
+}
+
+// Files created by the code, downloaded through the server's Files API proxy
+export const fileContentUrl = (fileId: string) => `/api/files/${encodeURIComponent(fileId)}/content`
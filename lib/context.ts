@@ -0,0 +1,256 @@
+import { createHash } from 'crypto'
+import type Anthropic from '@anthropic-ai/sdk'
+import type { MessageParam, MessageCountTokensParams, Usage } from '@anthropic-ai/sdk/resources/messages'
+import { getContextWindow, type ContextStrategy } from '@/lib/settings'
+import { getSingleton } from '@/lib/singleton'
+
+// Early turns are summarized by a fast, cheap model
+const SUMMARY_MODEL = 'claude-3-5-haiku-20241022'
+const SUMMARY_MAX_TOKENS = 1024
+
+// When summarizing, recent turns are kept verbatim up to this share of the budget
+const RECENT_TURNS_SHARE = 0.5
+
+// Summaries are forgotten after going unused this long, or sooner, least recently used
+// first, once there are more than MAX_SUMMARIES
+const SUMMARY_TTL_MS = 60 * 60 * 1000
+const MAX_SUMMARIES = 1000
+
+// Trimming works from estimates, so recount and trim again at most this many times
+const MAX_FIT_ATTEMPTS = 5
+
+const OMITTED = '[omitted to fit the context window]'
+
+type Block = { type: string, [key: string]: unknown }
+
+export interface FitResult {
+  messages: MessageParam[]
+  inputTokens: number
+  // Whether the history was changed to fit
+  trimmed: boolean
+  // What summarizing cost, to count toward the user's quota; null when no summary was made
+  summaryUsage: Usage | null
+}
+
+// A conversation's early turns, summarized
+interface Summary {
+  // How many turns it covers, and a digest of them to tell when they have changed
+  turns: number
+  digest: string
+  text: string
+  usedAt: number
+}
+
+// Summaries by conversation, so later requests reuse them instead of summarizing again;
+// kept in order of use, least recent first
+const getSummaries = () => getSingleton('contextSummaries', () => new Map<string, Summary>())
+
+function getSummary(key: string): Summary | undefined {
+  const summaries = getSummaries()
+  const summary = summaries.get(key)
+  if (!summary || Date.now() - summary.usedAt > SUMMARY_TTL_MS) return undefined
+  saveSummary(key, summary)
+  return summary
+}
+
+function saveSummary(key: string, summary: Summary) {
+  const summaries = getSummaries()
+  const now = Date.now()
+  summaries.delete(key)
+  summaries.set(key, { ...summary, usedAt: now })
+  for (const [oldestKey, oldest] of summaries) {
+    if (summaries.size <= MAX_SUMMARIES && now - oldest.usedAt <= SUMMARY_TTL_MS) break
+    summaries.delete(oldestKey)
+  }
+}
+
+const digestTurns = (turns: MessageParam[][]) => createHash('sha256').update(JSON.stringify(turns)).digest('hex')
+
+function toBlocks(content: MessageParam['content']): Block[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content as unknown as Block[]
+}
+
+// A turn starts at a user message that isn't answering tool calls and runs until the next one
+function splitTurns(messages: MessageParam[]): MessageParam[][] {
+  const turns: MessageParam[][] = []
+  for (const message of messages) {
+    const continuesTurn = message.role === 'assistant' ||
+      toBlocks(message.content).some(block => block.type === 'tool_result')
+    if (continuesTurn && turns.length > 0) {
+      turns[turns.length - 1].push(message)
+    } else {
+      turns.push([message])
+    }
+  }
+  return turns
+}
+
+// Share of the counted tokens each turn accounts for, estimated from its serialized size
+function estimateTurnTokens(turns: MessageParam[][], inputTokens: number): number[] {
+  const sizes = turns.map(turn => JSON.stringify(turn).length)
+  const totalSize = sizes.reduce((total, size) => total + size, 0)
+  return sizes.map(size => Math.ceil(inputTokens * size / totalSize))
+}
+
+// Drop whole turns from the start until the estimate fits; the latest turn is always kept
+function dropOldestTurns(messages: MessageParam[], inputTokens: number, budget: number): MessageParam[] {
+  const turns = splitTurns(messages)
+  const estimates = estimateTurnTokens(turns, inputTokens)
+  let remaining = inputTokens
+  let first = 0
+  while (first < turns.length - 1 && remaining > budget) {
+    remaining -= estimates[first]
+    first++
+  }
+  return turns.slice(first).flat()
+}
+
+// Remove thinking and tool-result payloads from every turn but the latest, which
+// still needs them for an in-progress tool loop
+function stripPayloads(messages: MessageParam[]): MessageParam[] {
+  const turns = splitTurns(messages)
+  const stripped = turns.slice(0, -1).flat().map((message): MessageParam => {
+    const blocks = toBlocks(message.content)
+    if (message.role === 'user') {
+      return {
+        ...message,
+        content: blocks.map(block => block.type === 'tool_result' ? { ...block, content: OMITTED } : block)
+      } as unknown as MessageParam
+    }
+    // Server tool calls and their results live in the same message, so they can go together
+    const content = blocks.filter(block =>
+      block.type !== 'thinking' &&
+      block.type !== 'redacted_thinking' &&
+      block.type !== 'server_tool_use' &&
+      !block.type.endsWith('_tool_result')
+    )
+    return {
+      ...message,
+      content: content.length > 0 ? content : [{ type: 'text', text: OMITTED }]
+    } as unknown as MessageParam
+  })
+  return [...stripped, ...turns[turns.length - 1]]
+}
+
+// Plain-text transcript of some turns, for the summarizer
+function toTranscript(messages: MessageParam[]): string {
+  return messages.map(message => {
+    const text = toBlocks(message.content)
+      .map(block => {
+        if (block.type === 'text') return block.text
+        if (block.type === 'tool_use' || block.type === 'server_tool_use') return `[called ${block.name}]`
+        return null
+      })
+      .filter(Boolean)
+      .join('\n')
+    return text ? `${message.role === 'user' ? 'User' : 'Assistant'}: ${text}` : ''
+  }).filter(Boolean).join('\n\n')
+}
+
+// The summary prepended to the first turn that is kept
+function withSummary(turns: MessageParam[][], summary: Summary): MessageParam[] {
+  const [firstMessage, ...rest] = turns.slice(summary.turns).flat()
+  return [
+    {
+      ...firstMessage,
+      content: [
+        { type: 'text', text: `Summary of the earlier conversation:\n${summary.text}` },
+        ...toBlocks(firstMessage.content)
+      ]
+    } as unknown as MessageParam,
+    ...rest
+  ]
+}
+
+// Replace the early turns with a summary. A conversation's summary is reused until the
+// turns after it no longer fit, then extended with the turns that now have to go.
+async function summarizeEarlyTurns(
+  anthropic: Anthropic,
+  messages: MessageParam[],
+  inputTokens: number,
+  budget: number,
+  summaryKey?: string
+): Promise<{ messages: MessageParam[], usage: Usage | null }> {
+  const turns = splitTurns(messages)
+  const estimates = estimateTurnTokens(turns, inputTokens)
+  const tokensFrom = (index: number) => estimates.slice(index).reduce((total, tokens) => total + tokens, 0)
+
+  // A summary only applies while the turns it covers are unchanged
+  const cached = summaryKey ? getSummary(summaryKey) : undefined
+  const previous = cached && cached.turns < turns.length && cached.digest === digestTurns(turns.slice(0, cached.turns))
+    ? cached
+    : undefined
+  if (previous && tokensFrom(previous.turns) + SUMMARY_MAX_TOKENS <= budget) {
+    return { messages: withSummary(turns, previous), usage: null }
+  }
+
+  // Keep recent turns verbatim while they fit in their share of the budget
+  let first = turns.length - 1
+  let kept = estimates[first]
+  while (first > 0 && kept + estimates[first - 1] <= budget * RECENT_TURNS_SHARE) {
+    first--
+    kept += estimates[first]
+  }
+  if (first === 0) return { messages, usage: null }
+
+  // Only the turns the previous summary doesn't cover need reading again
+  const extending = previous && previous.turns < first
+  const transcript = extending
+    ? `Summary of the earlier conversation:\n${previous.text}\n\n${toTranscript(turns.slice(previous.turns, first).flat())}`
+    : toTranscript(turns.slice(0, first).flat())
+  const response = await anthropic.messages.create({
+    model: SUMMARY_MODEL,
+    max_tokens: SUMMARY_MAX_TOKENS,
+    system: 'Summarize the conversation below so it can continue without the original. ' +
+      'Keep facts, decisions, names, numbers and open questions. Reply with the summary only.',
+    messages: [{ role: 'user', content: transcript }]
+  })
+  const summary: Summary = {
+    turns: first,
+    digest: digestTurns(turns.slice(0, first)),
+    text: response.content.map(block => block.type === 'text' ? block.text : '').join(''),
+    usedAt: Date.now()
+  }
+  if (summaryKey) saveSummary(summaryKey, summary)
+
+  return { messages: withSummary(turns, summary), usage: response.usage }
+}
+
+// Count the request's input tokens and, if the request and its max_tokens don't fit the
+// model's context window, shorten the history with the chosen strategy. Dropping the
+// oldest turns is the fallback when a strategy doesn't free enough space.
+export async function fitToContext(
+  anthropic: Anthropic,
+  request: MessageCountTokensParams,
+  // `summaryKey` names the conversation, so its summary can be reused by later requests
+  options: { maxTokens: number, strategy: ContextStrategy, summaryKey?: string }
+): Promise<FitResult> {
+  const budget = getContextWindow(request.model) - options.maxTokens
+  const count = async (messages: MessageParam[]) =>
+    (await anthropic.messages.countTokens({ ...request, messages })).input_tokens
+
+  let messages = request.messages
+  let inputTokens = await count(messages)
+  if (inputTokens <= budget) return { messages, inputTokens, trimmed: false, summaryUsage: null }
+
+  let summaryUsage: Usage | null = null
+
+  if (options.strategy === 'strip_payloads') {
+    messages = stripPayloads(messages)
+    inputTokens = await count(messages)
+  } else if (options.strategy === 'summarize') {
+    const summarized = await summarizeEarlyTurns(anthropic, messages, inputTokens, budget, options.summaryKey)
+    messages = summarized.messages
+    summaryUsage = summarized.usage
+    inputTokens = await count(messages)
+  }
+
+  for (let attempt = 0; attempt < MAX_FIT_ATTEMPTS && inputTokens > budget; attempt++) {
+    const shorter = dropOldestTurns(messages, inputTokens, budget)
+    if (shorter.length === messages.length) break
+    messages = shorter
+    inputTokens = await count(messages)
+  }
+
+  return { messages, inputTokens, trimmed: true, summaryUsage }
+}
@@ -0,0 +1,73 @@
+import { createJSONFile, getDataPath } from '@/lib/json-file'
+import { getSingleton } from '@/lib/singleton'
+
+// Who each Files API file belongs to. Files are stored under the server's API key, so
+// without this every user could see every other user's uploads and generated files.
+export interface FileOwnershipStore {
+  // Records files the user uploaded or their code execution created
+  addFiles: (userId: string, fileIds: string[]) => Promise<void>
+  // Files of other users are treated as missing
+  ownsFile: (userId: string, fileId: string) => Promise<boolean>
+  ownedFileIds: (userId: string) => Promise<Set<string>>
+  removeFile: (userId: string, fileId: string) => Promise<boolean>
+}
+
+export function createJSONFileOwnershipStore(filePath: string): FileOwnershipStore {
+  // fileId -> userId
+  const { run } = createJSONFile<Record<string, string>>(filePath, () => ({}))
+
+  return {
+    addFiles: (userId, fileIds) => run(async (owners, save) => {
+      // The first owner keeps a file
+      const added = fileIds.filter(fileId => !owners[fileId])
+      if (added.length === 0) return
+      for (const fileId of added) owners[fileId] = userId
+      await save()
+    }),
+
+    ownsFile: (userId, fileId) => run(async (owners) => owners[fileId] === userId),
+
+    ownedFileIds: (userId) => run(async (owners) =>
+      new Set(Object.keys(owners).filter(fileId => owners[fileId] === userId))
+    ),
+
+    removeFile: (userId, fileId) => run(async (owners, save) => {
+      if (owners[fileId] !== userId) return false
+      delete owners[fileId]
+      await save()
+      return true
+    })
+  }
+}
+
+// Shared store instance for route handlers
+export function getFileOwnershipStore(): FileOwnershipStore {
+  return getSingleton('fileOwnershipStore', () =>
+    createJSONFileOwnershipStore(getDataPath(process.env.FILE_STORAGE_PATH, 'files.json'))
+  )
+}
+
+type Block = { type?: unknown, source?: { type?: unknown, file_id?: unknown }, file_id?: unknown, content?: unknown }
+
+// Files the blocks refer to: documents and images by file source, container uploads, and
+// any of those inside tool results
+function fileIdsIn(content: unknown): string[] {
+  if (!Array.isArray(content)) return []
+  return content.flatMap((block: Block) => {
+    if (block?.source?.type === 'file' && typeof block.source.file_id === 'string') return [block.source.file_id]
+    if (block?.type === 'container_upload' && typeof block.file_id === 'string') return [block.file_id]
+    return block?.type === 'tool_result' ? fileIdsIn(block.content) : []
+  })
+}
+
+// 404 response when the messages refer to a file the user doesn't own, as the files
+// routes would answer for it; null when every referenced file is theirs
+export async function checkFileReferences(userId: string, messages: { content: unknown }[]): Promise<Response | null> {
+  const files = getFileOwnershipStore()
+  for (const fileId of new Set(messages.flatMap(message => fileIdsIn(message.content)))) {
+    if (!await files.ownsFile(userId, fileId)) {
+      return Response.json({ error: `File not found: ${fileId}` }, { status: 404 })
+    }
+  }
+  return null
+}
@@ -0,0 +1,82 @@
+import type { StateStorage } from 'zustand/middleware'
+
+const DB_NAME = 'anthropic-chat'
+const STORE_NAME = 'keyval'
+
+// Streaming updates the store many times per second; coalesce writes per key, saving at
+// most this long after the first unsaved change so a streaming reply is saved as it goes
+const WRITE_DELAY_MS = 300
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const pendingWrites = new Map<string, { value: string, timer: ReturnType<typeof setTimeout> }>()
+
+function write(name: string) {
+  const pending = pendingWrites.get(name)
+  if (!pending) return
+  clearTimeout(pending.timer)
+  pendingWrites.delete(name)
+  withStore('readwrite', store => store.put(pending.value, name)).catch(error => {
+    console.error('Failed to persist state:', error)
+  })
+}
+
+// Save what is pending before the page is closed or reloaded
+let flushOnHide = false
+function listenForPageHide() {
+  if (flushOnHide || typeof window === 'undefined') return
+  flushOnHide = true
+  const flush = () => [...pendingWrites.keys()].forEach(write)
+  window.addEventListener('pagehide', flush)
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flush()
+  })
+}
+
+// Key-value StateStorage backed by IndexedDB; a no-op where IndexedDB is unavailable (SSR)
+export const idbStorage: StateStorage = {
+  getItem: async (name) => {
+    if (typeof indexedDB === 'undefined') return null
+    const pending = pendingWrites.get(name)
+    if (pending) return pending.value
+    const value = await withStore('readonly', store => store.get(name))
+    return typeof value === 'string' ? value : null
+  },
+
+  setItem: (name, value) => {
+    if (typeof indexedDB === 'undefined') return
+    listenForPageHide()
+    // A write already scheduled takes the newer value without being pushed back
+    const pending = pendingWrites.get(name)
+    const timer = pending?.timer ?? setTimeout(() => write(name), WRITE_DELAY_MS)
+    pendingWrites.set(name, { value, timer })
+  },
+
+  removeItem: async (name) => {
+    if (typeof indexedDB === 'undefined') return
+    clearTimeout(pendingWrites.get(name)?.timer)
+    pendingWrites.delete(name)
+    await withStore('readwrite', store => store.delete(name))
+  }
+}
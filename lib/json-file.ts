@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+// Data kept in a single JSON file and cached in memory; fine for local and
+// single-instance deployments
+export interface JSONFile<T> {
+  // Operations are serialized so concurrent requests never interleave read-modify-write
+  run: <R>(operation: (data: T, save: () => Promise<void>) => Promise<R>) => Promise<R>
+}
+
+export function createJSONFile<T>(filePath: string, initial: () => T): JSONFile<T> {
+  let data: T | null = null
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const load = async (): Promise<T> => {
+    if (data) return data
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf8')) as T
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      data = initial()
+    }
+    return data
+  }
+
+  const save = async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    // Write then rename so a crash never leaves a truncated file behind
+    const tempPath = `${filePath}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2))
+    await fs.rename(tempPath, filePath)
+  }
+
+  return {
+    run: (operation) => {
+      const result = queue.then(async () => operation(await load(), save))
+      queue = result.catch(() => undefined)
+      return result
+    }
+  }
+}
+
+// Path for a data file, under .data in the project unless the environment says otherwise
+export function getDataPath(envPath: string | undefined, fileName: string): string {
+  return envPath || path.join(process.cwd(), '.data', fileName)
+}
@@ -0,0 +1,50 @@
+import type { Message } from '@anthropic-ai/sdk/resources/messages'
+
+// Message plus its parent in the thread's branch tree (null for the first turn)
+export type TreeMessage<M = Message> = M & { parentId: string | null }
+
+// Messages from the root down to `leafId`
+export function getActivePath<M extends { id: string, parentId: string | null }>(
+  messages: M[],
+  leafId: string | null
+): M[] {
+  const byId = new Map(messages.map(message => [message.id, message]))
+  const path: M[] = []
+  let current = leafId ? byId.get(leafId) : undefined
+  while (current) {
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+// Messages sharing a parent with `messageId`, including itself, in creation order
+export function getSiblings<M extends { id: string, parentId: string | null }>(
+  messages: M[],
+  messageId: string
+): M[] {
+  const message = messages.find(m => m.id === messageId)
+  if (!message) return []
+  return messages.filter(m => m.parentId === message.parentId)
+}
+
+// Follow the newest child at each level to find the leaf a branch ends in
+export function findLatestLeaf<M extends { id: string, parentId: string | null }>(
+  messages: M[],
+  messageId: string
+): string {
+  let leafId = messageId
+  while (true) {
+    const children = messages.filter(m => m.parentId === leafId)
+    if (children.length === 0) return leafId
+    leafId = children[children.length - 1].id
+  }
+}
+
+// Link a flat history into a single branch
+export function toLinearTree<M extends { id: string }>(messages: M[]): TreeMessage<M>[] {
+  return messages.map((message, index) => ({
+    ...message,
+    parentId: index > 0 ? messages[index - 1].id : null
+  }))
+}
@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { ChatError } from '@/lib/chat-errors'
+
+// Offline stand-in for the Anthropic API in /api/chat. With CHAT_MOCK_MODE=replay the route
+// streams recorded fixtures instead of calling the API, and the token count and title routes
+// answer locally; with CHAT_MOCK_MODE=record it calls the API as usual and saves each stream
+// as a fixture.
+export type MockMode = 'replay' | 'record'
+
+// One step of a recorded stream, `delay` milliseconds after the previous one
+export type FixtureStep =
+  | { delay: number, data: unknown }
+  // The client connection drops here; the generation carries on for a reconnect
+  | { delay: number, disconnect: true }
+
+// One /api/chat response: a failed request, or a stream of events
+export interface FixtureResponse {
+  status?: number
+  error?: ChatError
+  steps?: FixtureStep[]
+}
+
+// Responses in request order; a tool round-trip needs one per round
+export interface ChatFixture {
+  description?: string
+  responses: FixtureResponse[]
+}
+
+export const DEFAULT_FIXTURE = 'text'
+// Names a fixture for the request, instead of a #tag in the message
+export const FIXTURE_HEADER = 'X-Mock-Fixture'
+
+const FIXTURE_NAME = /^[a-z0-9][a-z0-9-]*$/
+const FIXTURE_TAG = /(?:^|\s)#([a-z0-9][a-z0-9-]*)/
+
+export function getMockMode(): MockMode | null {
+  const mode = process.env.CHAT_MOCK_MODE
+  return mode === 'replay' || mode === 'record' ? mode : null
+}
+
+function getFixturesDir(): string {
+  return process.env.CHAT_MOCK_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'chat')
+}
+
+// Replay speed multiplier from CHAT_MOCK_SPEED; 0 replays without delays
+function getReplaySpeed(): number {
+  const speed = Number(process.env.CHAT_MOCK_SPEED ?? 1)
+  return Number.isFinite(speed) && speed >= 0 ? speed : 1
+}
+
+type FixtureMessage = { role: string, content: string | { type: string, text?: string }[] }
+
+const textOf = (message: FixtureMessage) => typeof message.content === 'string'
+  ? message.content
+  : message.content.map(block => block.type === 'text' ? block.text ?? '' : '').join(' ')
+
+// Which fixture and which of its responses a request gets. The fixture is named by the
+// header, or by a #tag in the latest user message with text (e.g. "#thinking"); the response
+// is the number of assistant turns since that message, so tool round-trips advance through it.
+export function selectFixture(messages: FixtureMessage[], header: string | null): { name: string | null, round: number } {
+  let round = 0
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i]
+    if (message.role === 'assistant') {
+      round++
+      continue
+    }
+    const text = textOf(message)
+    if (!text.trim()) continue
+    const tag = FIXTURE_TAG.exec(text)?.[1]
+    return { name: header ?? tag ?? null, round }
+  }
+  return { name: header, round }
+}
+
+function fixturePath(name: string): string | null {
+  return FIXTURE_NAME.test(name) ? path.join(getFixturesDir(), `${name}.json`) : null
+}
+
+export async function loadFixture(name: string): Promise<ChatFixture | null> {
+  const filePath = fixturePath(name)
+  if (!filePath) return null
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as ChatFixture
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+// The response for a round; later rounds reuse the last one
+export function getFixtureResponse(fixture: ChatFixture, round: number): FixtureResponse | null {
+  return fixture.responses[Math.min(round, fixture.responses.length - 1)] ?? null
+}
+
+// Wait out a step's delay at the configured speed, stopping early if cancelled
+export function waitForStep(step: FixtureStep, signal: AbortSignal): Promise<void> {
+  const speed = getReplaySpeed()
+  const ms = speed === 0 ? 0 : step.delay / speed
+  return new Promise((resolve) => {
+    if (signal.aborted || ms <= 0) return resolve()
+    const timeout = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeout)
+      resolve()
+    }, { once: true })
+  })
+}
+
+// Fixtures can be replayed more than once in a thread, so every replay gets its own message ID
+export function withReplayId(data: unknown, replayId: string): unknown {
+  const event = data as { type?: string, message?: { id: string } }
+  return event.type === 'message_start' && event.message
+    ? { ...event, message: { ...event.message, id: `${event.message.id}_${replayId}` } }
+    : data
+}
+
+// Collects a live stream's events with their timing and saves them as the fixture's
+// response for `round`
+export function createFixtureRecorder(name: string, round: number) {
+  const steps: FixtureStep[] = []
+  let last = Date.now()
+
+  return {
+    record(data: unknown) {
+      const now = Date.now()
+      steps.push({ delay: now - last, data })
+      last = now
+    },
+
+    async save() {
+      const filePath = fixturePath(name)
+      if (!filePath) throw new Error(`Invalid fixture name: ${name}`)
+      // Earlier rounds are kept, so a tool round-trip records into one fixture
+      const fixture = await loadFixture(name) ?? { responses: [] }
+      fixture.responses = [...fixture.responses.slice(0, round), { steps }]
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(fixture, null, 2) + '\n')
+      console.log(`Recorded ${steps.length} events to ${filePath}`)
+    }
+  }
+}
+
+// Name for a new recording when the request doesn't pick one
+export function newRecordingName(): string {
+  return `recording-${Date.now()}`
+}
+
+// Roughly how the API tokenizes English text and JSON
+const CHARS_PER_TOKEN = 4
+const MOCK_TITLE_WORDS = 6
+
+// Stand-in for counting a request's input tokens
+export function estimateTokens(request: unknown): number {
+  return Math.ceil(JSON.stringify(request).length / CHARS_PER_TOKEN)
+}
+
+// Stand-in for a generated title: the first words of the conversation
+export function mockTitle(text: string): string {
+  return text.trim().split(/\s+/).slice(0, MOCK_TITLE_WORDS).join(' ').replace(/[.,;:!?]+$/, '')
+}
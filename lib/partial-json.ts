@@ -0,0 +1,159 @@
+// Returned by the value parsers when the input ends before anything usable was read
+const INCOMPLETE = Symbol('incomplete')
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null }
+
+// Parse a possibly truncated JSON document into a best-effort value.
+// Unterminated strings are kept as-is, unfinished containers are closed, and
+// keys whose value has not started yet are dropped. Malformed input throws.
+export function parsePartialJSON(text: string): unknown {
+  let pos = 0
+  // Whether the last string parsed reached its closing quote
+  let stringClosed = false
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++
+  }
+
+  const fail = (): never => {
+    throw new SyntaxError(`Unexpected token in JSON at position ${pos}`)
+  }
+
+  const parseString = (): string => {
+    pos++ // opening quote
+    stringClosed = false
+    let result = ''
+    while (pos < text.length) {
+      const char = text[pos]
+      if (char === '"') {
+        pos++
+        stringClosed = true
+        return result
+      }
+      if (char !== '\\') {
+        result += char
+        pos++
+        continue
+      }
+
+      // Escape sequence; stop at the last complete character if it is cut off
+      const escape = text[pos + 1]
+      if (escape === undefined) break
+      if (escape === 'u') {
+        const hex = text.slice(pos + 2, pos + 6)
+        if (hex.length < 4) break
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail()
+        result += String.fromCharCode(parseInt(hex, 16))
+        pos += 6
+        continue
+      }
+      const unescaped = ({ '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' } as Record<string, string>)[escape]
+      if (unescaped === undefined) fail()
+      result += unescaped
+      pos += 2
+    }
+    pos = text.length
+    return result
+  }
+
+  const parseNumber = (): number | typeof INCOMPLETE => {
+    const match = /^-?\d*(\.\d*)?([eE][+-]?\d*)?/.exec(text.slice(pos))
+    const raw = match?.[0] ?? ''
+    if (!raw) fail()
+    pos += raw.length
+    // Trim dangling characters such as "1." or "2e-" left by a cut-off number
+    const value = parseFloat(raw.replace(/[.eE+-]+$/, ''))
+    if (Number.isNaN(value)) {
+      if (pos >= text.length) return INCOMPLETE
+      fail()
+    }
+    return value
+  }
+
+  const parseLiteral = (): unknown => {
+    for (const [literal, value] of Object.entries(LITERALS)) {
+      if (text.startsWith(literal, pos)) {
+        pos += literal.length
+        return value
+      }
+      if (literal.startsWith(text.slice(pos))) {
+        pos = text.length
+        return INCOMPLETE
+      }
+    }
+    return fail()
+  }
+
+  const parseArray = (): unknown[] => {
+    pos++ // opening bracket
+    const result: unknown[] = []
+    while (true) {
+      skipWhitespace()
+      if (pos >= text.length) return result
+      if (text[pos] === ']') {
+        pos++
+        return result
+      }
+      if (result.length > 0) {
+        if (text[pos] !== ',') fail()
+        pos++
+        skipWhitespace()
+        if (pos >= text.length) return result
+      }
+      const value = parseValue()
+      if (value !== INCOMPLETE) result.push(value)
+    }
+  }
+
+  const parseObject = (): Record<string, unknown> => {
+    pos++ // opening brace
+    const result: Record<string, unknown> = {}
+    let first = true
+    while (true) {
+      skipWhitespace()
+      if (pos >= text.length) return result
+      if (text[pos] === '}') {
+        pos++
+        return result
+      }
+      if (!first) {
+        if (text[pos] !== ',') fail()
+        pos++
+        skipWhitespace()
+        if (pos >= text.length) return result
+      }
+      first = false
+
+      if (text[pos] !== '"') fail()
+      const key = parseString()
+      // A key is only usable once its closing quote has arrived
+      if (!stringClosed) return result
+
+      skipWhitespace()
+      if (pos >= text.length) return result
+      if (text[pos] !== ':') fail()
+      pos++
+      skipWhitespace()
+      if (pos >= text.length) return result
+
+      const value = parseValue()
+      if (value !== INCOMPLETE) result[key] = value
+    }
+  }
+
+  const parseValue = (): unknown => {
+    skipWhitespace()
+    if (pos >= text.length) return INCOMPLETE
+    const char = text[pos]
+    if (char === '{') return parseObject()
+    if (char === '[') return parseArray()
+    if (char === '"') return parseString()
+    if (char === '-' || (char >= '0' && char <= '9')) return parseNumber()
+    return parseLiteral()
+  }
+
+  const value = parseValue()
+  skipWhitespace()
+  if (pos < text.length) fail()
+  return value === INCOMPLETE ? undefined : value
+}
@@ -0,0 +1,87 @@
+import type { MessageParam, TextBlockParam } from '@anthropic-ai/sdk/resources/messages'
+
+// The API rejects requests with more cache_control breakpoints than this
+export const MAX_CACHE_BREAKPOINTS = 4
+
+// Breakpoints spent on the conversation itself: the latest turn, which the next
+// request reads back, and the previous user turn, which reads what the last request
+// wrote even when the new turn adds more blocks than the API looks back over
+const MESSAGE_BREAKPOINTS = 2
+
+const EPHEMERAL = { type: 'ephemeral' } as const
+
+interface CacheableRequest {
+  system?: string | TextBlockParam[]
+  tools?: Record<string, unknown>[]
+  messages: MessageParam[]
+}
+
+type Block = Record<string, unknown> & { type: string }
+
+function withoutCacheControl<B extends object>(block: B): B {
+  if (!('cache_control' in block)) return block
+  const copy: B & { cache_control?: unknown } = { ...block }
+  delete copy.cache_control
+  return copy
+}
+
+// Thinking blocks can't carry cache_control, and empty text blocks can't be cached
+function isCacheable(block: Block) {
+  if (block.type === 'thinking' || block.type === 'redacted_thinking') return false
+  return block.type !== 'text' || Boolean(block.text)
+}
+
+// Mark the last cacheable block of a message; returns false when it has none
+function markMessage(message: { content: Block[] }): boolean {
+  for (let i = message.content.length - 1; i >= 0; i--) {
+    if (isCacheable(message.content[i])) {
+      message.content[i] = { ...message.content[i], cache_control: EPHEMERAL }
+      return true
+    }
+  }
+  return false
+}
+
+// Place ephemeral cache breakpoints on the tool definitions, the system prompt and
+// the latest stable prefix of the conversation. Breakpoints the caller already set
+// are replaced so the total never exceeds MAX_CACHE_BREAKPOINTS. Tools render before
+// the system prompt, which renders before the messages, so each breakpoint caches
+// everything ahead of it.
+export function applyCacheBreakpoints<T extends CacheableRequest>(request: T): T {
+  let remaining = MAX_CACHE_BREAKPOINTS
+
+  const tools = request.tools?.map(withoutCacheControl)
+  if (tools && tools.length > 0) {
+    tools[tools.length - 1] = { ...tools[tools.length - 1], cache_control: EPHEMERAL }
+    remaining--
+  }
+
+  let system = typeof request.system === 'string'
+    ? (request.system ? [{ type: 'text' as const, text: request.system }] : undefined)
+    : request.system?.map(withoutCacheControl)
+  if (system && system.length > 0) {
+    system = [...system.slice(0, -1), { ...system[system.length - 1], cache_control: EPHEMERAL }]
+    remaining--
+  }
+
+  const messages = request.messages.map(message => ({
+    ...message,
+    content: typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content }]
+      : message.content.map(block => withoutCacheControl(block as unknown as Block))
+  }))
+
+  // The latest turn first, then earlier user turns
+  let messageBreakpoints = Math.min(MESSAGE_BREAKPOINTS, remaining)
+  for (let i = messages.length - 1; i >= 0 && messageBreakpoints > 0; i--) {
+    if (i !== messages.length - 1 && messages[i].role !== 'user') continue
+    if (markMessage(messages[i] as { content: Block[] })) messageBreakpoints--
+  }
+
+  return {
+    ...request,
+    ...(tools ? { tools } : {}),
+    system,
+    messages: messages as unknown as MessageParam[]
+  }
+}
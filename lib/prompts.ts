@@ -0,0 +1,42 @@
+// Named system prompt template with {{variable}} placeholders
+export interface PromptPreset {
+  id: string
+  name: string
+  template: string
+}
+
+export const DEFAULT_PRESETS: PromptPreset[] = [
+  {
+    id: 'preset_assistant',
+    name: 'Helpful assistant',
+    template: 'You are a helpful assistant. Today is {{date}}.'
+  },
+  {
+    id: 'preset_code_reviewer',
+    name: 'Code reviewer',
+    template: 'You are a senior {{language}} engineer reviewing code. Point out bugs first, then style issues. Be concise.'
+  },
+  {
+    id: 'preset_translator',
+    name: 'Translator',
+    template: 'Translate everything the user writes into {{target_language}}. Reply with the translation only.'
+  }
+]
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g
+
+// Names of the placeholders in a template, in order of first appearance
+export function extractVariables(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]))]
+}
+
+// Values available to every template without being supplied
+function builtInVariables(): Record<string, string> {
+  return { date: new Date().toDateString() }
+}
+
+// Replace {{variable}} placeholders; unknown variables are left as-is so they stay visible
+export function fillTemplate(template: string, variables: Record<string, string>): string {
+  const values = { ...builtInVariables(), ...variables }
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder)
+}
@@ -0,0 +1,64 @@
+import type { Usage } from '@anthropic-ai/sdk/resources/messages'
+import { createJSONFile, getDataPath } from '@/lib/json-file'
+import { toTokenUsage, toDayKey } from '@/lib/usage'
+import { getSingleton } from '@/lib/singleton'
+
+// Tokens each user has used per day, counted from the usage of streamed responses
+export interface UsageStore {
+  getTokens: (userId: string, day: string) => Promise<number>
+  // Returns the day's new total
+  addTokens: (userId: string, day: string, tokens: number) => Promise<number>
+}
+
+export function createJSONFileUsageStore(filePath: string): UsageStore {
+  // userId -> day -> tokens
+  const { run } = createJSONFile<Record<string, Record<string, number>>>(filePath, () => ({}))
+
+  return {
+    getTokens: (userId, day) => run(async (usage) => usage[userId]?.[day] ?? 0),
+
+    addTokens: (userId, day, tokens) => run(async (usage, save) => {
+      const days = usage[userId] ?? {}
+      days[day] = (days[day] ?? 0) + tokens
+      usage[userId] = days
+      await save()
+      return days[day]
+    })
+  }
+}
+
+// Shared store instance for route handlers
+export function getUsageStore(): UsageStore {
+  return getSingleton('usageStore', () =>
+    createJSONFileUsageStore(getDataPath(process.env.USAGE_STORAGE_PATH, 'usage.json'))
+  )
+}
+
+// Tokens per user per day from CHAT_DAILY_TOKEN_QUOTA; null (unlimited) when unset
+export function getDailyTokenQuota(): number | null {
+  const quota = Number(process.env.CHAT_DAILY_TOKEN_QUOTA)
+  return Number.isInteger(quota) && quota > 0 ? quota : null
+}
+
+// Every token the API billed for, cached or not
+export function countTokens(usage: Partial<Usage> | null | undefined): number {
+  const tokens = toTokenUsage(usage)
+  return tokens.input_tokens + tokens.output_tokens + tokens.cache_creation_input_tokens + tokens.cache_read_input_tokens
+}
+
+// A 403 response once the user has used up today's quota
+export async function checkQuota(userId: string): Promise<Response | null> {
+  const quota = getDailyTokenQuota()
+  if (quota === null) return null
+  const used = await getUsageStore().getTokens(userId, toDayKey(new Date()))
+  if (used < quota) return null
+  return Response.json(
+    { error: `Daily token quota of ${quota.toLocaleString('en-US')} reached` },
+    { status: 403 }
+  )
+}
+
+export async function recordUsage(userId: string, usage: Partial<Usage> | null | undefined) {
+  const tokens = countTokens(usage)
+  if (tokens > 0) await getUsageStore().addTokens(userId, toDayKey(new Date()), tokens)
+}
@@ -0,0 +1,145 @@
+import type { NextRequest } from 'next/server'
+import { USER_ID_HEADER } from '@/lib/session'
+import { getSingleton } from '@/lib/singleton'
+
+// Token-bucket rate limiting: each key (a client IP or user) has a bucket holding up to
+// `capacity` tokens that refills continuously, and every request takes one
+
+export interface BucketState {
+  tokens: number
+  // Epoch milliseconds when `tokens` was last computed
+  updatedAt: number
+}
+
+// Where buckets are kept; replace the in-memory store with a shared one (e.g. Redis)
+// when running more than one server instance
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | null>
+  set(key: string, state: BucketState, ttlMs: number): Promise<void>
+}
+
+// Expired buckets are swept once the store grows past this many
+const SWEEP_THRESHOLD = 10000
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { state: BucketState, expiresAt: number }>()
+
+  return {
+    async get(key) {
+      const entry = buckets.get(key)
+      if (!entry || entry.expiresAt <= Date.now()) return null
+      return entry.state
+    },
+
+    async set(key, state, ttlMs) {
+      if (buckets.size >= SWEEP_THRESHOLD) {
+        const now = Date.now()
+        for (const [bucketKey, entry] of buckets) {
+          if (entry.expiresAt <= now) buckets.delete(bucketKey)
+        }
+      }
+      buckets.set(key, { state, expiresAt: Date.now() + ttlMs })
+    }
+  }
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  // Seconds until the request would be allowed; 0 when it was
+  retryAfter: number
+}
+
+export interface RateLimiter {
+  consume(key: string, cost?: number): Promise<RateLimitResult>
+}
+
+export function createRateLimiter({ capacity, refillPerSecond, store = createMemoryRateLimitStore() }: {
+  capacity: number
+  refillPerSecond: number
+  store?: RateLimitStore
+}): RateLimiter {
+  // An untouched bucket is full again after this long, so it needn't be kept
+  const ttlMs = Math.ceil(capacity / refillPerSecond * 1000)
+
+  return {
+    async consume(key, cost = 1) {
+      const now = Date.now()
+      const saved = await store.get(key)
+      const tokens = saved
+        ? Math.min(capacity, saved.tokens + (now - saved.updatedAt) / 1000 * refillPerSecond)
+        : capacity
+
+      if (tokens < cost) {
+        return { allowed: false, remaining: Math.floor(tokens), retryAfter: (cost - tokens) / refillPerSecond }
+      }
+      await store.set(key, { tokens: tokens - cost, updatedAt: now }, ttlMs)
+      return { allowed: true, remaining: Math.floor(tokens - cost), retryAfter: 0 }
+    }
+  }
+}
+
+const DEFAULT_REQUESTS_PER_MINUTE = 20
+
+// Shared limiter for /api/chat, configured with CHAT_RATE_LIMIT (requests per minute)
+// and CHAT_RATE_LIMIT_BURST (bucket size, defaults to the per-minute rate)
+export function getChatRateLimiter(): RateLimiter {
+  return getSingleton('chatRateLimiter', () => {
+    const perMinute = Number(process.env.CHAT_RATE_LIMIT) || DEFAULT_REQUESTS_PER_MINUTE
+    return createRateLimiter({
+      capacity: Number(process.env.CHAT_RATE_LIMIT_BURST) || perMinute,
+      refillPerSecond: perMinute / 60
+    })
+  })
+}
+
+// The client's address. A platform that puts it in a header of its own, overwriting what
+// the client sent, names that header with CHAT_CLIENT_IP_HEADER (e.g. cf-connecting-ip).
+// Otherwise each proxy appends the address it saw to x-forwarded-for and the client controls
+// everything before that, so the address is read from the right: CHAT_TRUSTED_PROXIES is
+// how many proxies are in front of the app (default 0, where the last entry is the socket
+// address Next.js adds when the client sent no header).
+export function getClientIp(request: NextRequest): string {
+  const ipHeader = process.env.CHAT_CLIENT_IP_HEADER
+  const platformIp = ipHeader && request.headers.get(ipHeader)?.trim()
+  if (platformIp) return platformIp
+
+  const hops = request.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean) ?? []
+  const trustedProxies = Number(process.env.CHAT_TRUSTED_PROXIES)
+  const fromRight = Number.isInteger(trustedProxies) && trustedProxies > 0 ? trustedProxies : 1
+  // With fewer entries than proxies the request didn't come through all of them
+  return hops[hops.length - fromRight] ?? hops[0] ?? 'unknown'
+}
+
+const DEFAULT_COUNT_TOKENS_PER_MINUTE = 60
+
+// Shared limiter for /api/count_tokens, which the context meter calls as the user types;
+// its buckets are separate so counting never uses up the chat limit. Configured with
+// CHAT_COUNT_TOKENS_RATE_LIMIT (requests per minute).
+export function getCountTokensRateLimiter(): RateLimiter {
+  return getSingleton('countTokensRateLimiter', () => {
+    const perMinute = Number(process.env.CHAT_COUNT_TOKENS_RATE_LIMIT) || DEFAULT_COUNT_TOKENS_PER_MINUTE
+    return createRateLimiter({ capacity: perMinute, refillPerSecond: perMinute / 60 })
+  })
+}
+
+// Buckets a request counts against: its IP, and its user when signed in
+export function getRateLimitKeys(request: NextRequest): string[] {
+  const ip = getClientIp(request)
+  const userId = request.headers.get(USER_ID_HEADER)
+  return [`ip:${ip}`, ...(userId ? [`user:${userId}`] : [])]
+}
+
+// Take a request from each of the client's buckets; a 429 response when any is empty
+export async function checkRateLimit(request: NextRequest, rateLimiter = getChatRateLimiter()): Promise<Response | null> {
+  for (const key of getRateLimitKeys(request)) {
+    const { allowed, retryAfter } = await rateLimiter.consume(key)
+    if (!allowed) {
+      return Response.json(
+        { error: 'Too many requests, please slow down' },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfter)) } }
+      )
+    }
+  }
+  return null
+}
@@ -0,0 +1,246 @@
+// Model and generation settings, shared by the store (per thread) and /api/chat (validation)
+
+export type ServerToolName = 'web_search' | 'code_execution'
+
+// What to do when a thread no longer fits in the model's context window
+export type ContextStrategy = 'drop_oldest' | 'strip_payloads' | 'summarize'
+
+// Approximate location web search results are localized to; every field is optional
+export interface UserLocation {
+  city?: string
+  region?: string
+  // ISO 3166-1 alpha-2 code, e.g. "US"
+  country?: string
+  // IANA time zone, e.g. "America/New_York"
+  timezone?: string
+}
+
+// Web search options; an empty domain list means no restriction
+export interface WebSearchSettings {
+  max_uses?: number
+  allowed_domains: string[]
+  blocked_domains: string[]
+  user_location?: UserLocation
+}
+
+export interface ChatSettings {
+  model: string
+  max_tokens: number
+  temperature?: number
+  top_p?: number
+  top_k?: number
+  stop_sequences: string[]
+  thinking: {
+    enabled: boolean
+    budget_tokens: number
+  }
+  serverTools: Record<ServerToolName, boolean>
+  webSearch: WebSearchSettings
+  contextStrategy: ContextStrategy
+}
+
+// Models offered in the settings modal with their output token ceilings and context windows
+export const MODELS: { id: string, label: string, maxOutputTokens: number, contextWindow: number }[] = [
+  { id: 'claude-opus-4-20250514', label: 'Claude Opus 4', maxOutputTokens: 32000, contextWindow: 200000 },
+  { id: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4', maxOutputTokens: 64000, contextWindow: 200000 },
+  { id: 'claude-3-7-sonnet-20250219', label: 'Claude Sonnet 3.7', maxOutputTokens: 64000, contextWindow: 200000 },
+  { id: 'claude-3-5-haiku-20241022', label: 'Claude Haiku 3.5', maxOutputTokens: 8192, contextWindow: 200000 }
+]
+
+const DEFAULT_CONTEXT_WINDOW = 200000
+
+export function getContextWindow(model: string): number {
+  return MODELS.find(m => m.id === model)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW
+}
+
+export const CONTEXT_STRATEGIES: { id: ContextStrategy, label: string }[] = [
+  { id: 'drop_oldest', label: 'Drop the oldest turns' },
+  { id: 'strip_payloads', label: 'Drop old thinking and tool results' },
+  { id: 'summarize', label: 'Summarize early turns' }
+]
+
+export const MIN_THINKING_BUDGET = 1024
+export const MAX_STOP_SEQUENCES = 8
+
+export const DEFAULT_SETTINGS: ChatSettings = {
+  model: 'claude-opus-4-20250514',
+  max_tokens: 4096,
+  stop_sequences: [],
+  thinking: { enabled: true, budget_tokens: 3072 },
+  serverTools: { web_search: true, code_execution: true },
+  webSearch: { allowed_domains: [], blocked_domains: [] },
+  contextStrategy: 'strip_payloads'
+}
+
+// Server tool definitions and the beta feature each one needs
+const SERVER_TOOLS: Record<ServerToolName, { tool: { type: string, name: ServerToolName }, betaFeature: string }> = {
+  web_search: { tool: { type: 'web_search_20250305', name: 'web_search' }, betaFeature: 'web-search' },
+  code_execution: { tool: { type: 'code_execution_20250522', name: 'code_execution' }, betaFeature: 'code-execution' }
+}
+
+export const SERVER_TOOL_TYPES = Object.values(SERVER_TOOLS).map(({ tool }) => tool.type)
+
+export const WEB_SEARCH_TOOL_TYPE = SERVER_TOOLS.web_search.tool.type
+
+// The web_search tool definition as the API takes it
+export interface WebSearchTool {
+  type: typeof WEB_SEARCH_TOOL_TYPE
+  name: 'web_search'
+  max_uses?: number
+  allowed_domains?: string[]
+  blocked_domains?: string[]
+  user_location?: UserLocation & { type: 'approximate' }
+}
+
+// Unset and empty options are left out, as the API rejects empty domain lists
+export function toWebSearchTool(settings: WebSearchSettings): WebSearchTool {
+  const location = Object.fromEntries(
+    Object.entries(settings.user_location ?? {}).filter(([, value]) => value)
+  ) as UserLocation
+  return {
+    type: WEB_SEARCH_TOOL_TYPE,
+    name: 'web_search',
+    ...(settings.max_uses !== undefined ? { max_uses: settings.max_uses } : {}),
+    ...(settings.allowed_domains.length > 0 ? { allowed_domains: settings.allowed_domains } : {}),
+    ...(settings.blocked_domains.length > 0 ? { blocked_domains: settings.blocked_domains } : {}),
+    ...(Object.keys(location).length > 0 ? { user_location: { type: 'approximate', ...location } } : {})
+  }
+}
+
+// Generation parameters as sent to /api/chat
+export interface GenerationParams {
+  model: string
+  max_tokens: number
+  temperature?: number
+  top_p?: number
+  top_k?: number
+  stop_sequences?: string[]
+  thinking?: { type: 'enabled', budget_tokens: number }
+  tools: { type?: string, name: string }[]
+  betaFeatures: string[]
+  contextStrategy: ContextStrategy
+}
+
+export function toGenerationParams(settings: ChatSettings): GenerationParams {
+  const enabledTools = (Object.keys(SERVER_TOOLS) as ServerToolName[])
+    .filter(name => settings.serverTools[name])
+
+  return {
+    model: settings.model,
+    max_tokens: settings.max_tokens,
+    temperature: settings.temperature,
+    top_p: settings.top_p,
+    top_k: settings.top_k,
+    stop_sequences: settings.stop_sequences.length > 0 ? settings.stop_sequences : undefined,
+    thinking: settings.thinking.enabled
+      ? { type: 'enabled', budget_tokens: settings.thinking.budget_tokens }
+      : undefined,
+    tools: enabledTools.map(name => name === 'web_search' ? toWebSearchTool(settings.webSearch) : SERVER_TOOLS[name].tool),
+    betaFeatures: [
+      ...enabledTools.map(name => SERVER_TOOLS[name].betaFeature),
+      ...(settings.thinking.enabled ? ['thinking'] : [])
+    ],
+    contextStrategy: settings.contextStrategy
+  }
+}
+
+const isInRange = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+
+// A bare domain such as "example.com" or "docs.example.com", without scheme or path
+const DOMAIN = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i
+
+function validateDomains(domains: unknown, field: string): string[] {
+  if (domains === undefined) return []
+  if (!Array.isArray(domains)) return [`${field} must be an array of domains`]
+  return domains
+    .filter(domain => typeof domain !== 'string' || !DOMAIN.test(domain))
+    .map(domain => `${field} must be bare domains like example.com, not ${JSON.stringify(domain)}`)
+}
+
+// Validate the web_search tool's options
+export function validateWebSearchTool(tool: Partial<WebSearchTool>): string[] {
+  const errors: string[] = []
+  if (tool.max_uses !== undefined && (!Number.isInteger(tool.max_uses) || !isInRange(tool.max_uses, 1, Infinity))) {
+    errors.push('Web search max_uses must be a positive integer')
+  }
+  errors.push(...validateDomains(tool.allowed_domains, 'Web search allowed_domains'))
+  errors.push(...validateDomains(tool.blocked_domains, 'Web search blocked_domains'))
+  if (tool.allowed_domains?.length && tool.blocked_domains?.length) {
+    errors.push('Web search can use allowed domains or blocked domains, not both')
+  }
+
+  const location = tool.user_location
+  if (location !== undefined) {
+    const fields = ['city', 'region', 'country', 'timezone'] as const
+    if (typeof location !== 'object' || location === null || location.type !== 'approximate' ||
+      fields.some(field => location[field] !== undefined && typeof location[field] !== 'string')) {
+      errors.push('Web search user_location must be { type: "approximate" } with optional text fields')
+    } else if (location.country !== undefined && !/^[A-Z]{2}$/.test(location.country)) {
+      errors.push('Web search country must be a two-letter code such as US')
+    }
+  }
+  return errors
+}
+
+// Validate generation parameters; returns one message per problem (empty when valid)
+export function validateGenerationParams(params: Partial<GenerationParams>): string[] {
+  const errors: string[] = []
+
+  const model = MODELS.find(m => m.id === params.model)
+  if (!model) errors.push(`Unknown model: ${params.model}`)
+
+  const maxOutputTokens = model?.maxOutputTokens ?? Infinity
+  if (!Number.isInteger(params.max_tokens) || !isInRange(params.max_tokens, 1, maxOutputTokens)) {
+    errors.push(`max_tokens must be an integer between 1 and ${model ? maxOutputTokens : 'the model limit'}`)
+  }
+
+  if (params.temperature !== undefined && !isInRange(params.temperature, 0, 1)) {
+    errors.push('temperature must be between 0 and 1')
+  }
+  if (params.top_p !== undefined && !isInRange(params.top_p, 0, 1)) {
+    errors.push('top_p must be between 0 and 1')
+  }
+  if (params.top_k !== undefined && (!Number.isInteger(params.top_k) || !isInRange(params.top_k, 1, Infinity))) {
+    errors.push('top_k must be a positive integer')
+  }
+
+  if (params.stop_sequences !== undefined) {
+    if (!Array.isArray(params.stop_sequences) || params.stop_sequences.some(s => typeof s !== 'string' || !s)) {
+      errors.push('stop_sequences must be non-empty strings')
+    } else if (params.stop_sequences.length > MAX_STOP_SEQUENCES) {
+      errors.push(`At most ${MAX_STOP_SEQUENCES} stop sequences are allowed`)
+    }
+  }
+
+  if (params.thinking !== undefined) {
+    const budget = params.thinking?.budget_tokens
+    if (params.thinking?.type !== 'enabled' || typeof budget !== 'number' || !Number.isInteger(budget)) {
+      errors.push('thinking must be { type: "enabled", budget_tokens: integer }')
+    } else if (budget < MIN_THINKING_BUDGET || (typeof params.max_tokens === 'number' && budget >= params.max_tokens)) {
+      errors.push(`Thinking budget must be at least ${MIN_THINKING_BUDGET} and less than max_tokens`)
+    }
+    // Extended thinking does not allow changing temperature or top_k, and limits top_p
+    if (params.temperature !== undefined || params.top_k !== undefined) {
+      errors.push('temperature and top_k cannot be set while thinking is enabled')
+    }
+    if (params.top_p !== undefined && !isInRange(params.top_p, 0.95, 1)) {
+      errors.push('top_p must be between 0.95 and 1 while thinking is enabled')
+    }
+  }
+
+  const webSearch = Array.isArray(params.tools)
+    ? params.tools.find(tool => tool?.type === WEB_SEARCH_TOOL_TYPE)
+    : undefined
+  if (webSearch) errors.push(...validateWebSearchTool(webSearch as Partial<WebSearchTool>))
+
+  if (params.contextStrategy !== undefined && !CONTEXT_STRATEGIES.some(s => s.id === params.contextStrategy)) {
+    errors.push(`Unknown context strategy: ${params.contextStrategy}`)
+  }
+
+  return errors
+}
+
+export function validateSettings(settings: ChatSettings): string[] {
+  return validateGenerationParams(toGenerationParams(settings))
+}
@@ -0,0 +1,7 @@
+// Route handlers are bundled separately, so a module-level variable gives each route its
+// own copy. Instances that routes must share (buffers, stores) live on globalThis instead.
+export function getSingleton<T>(name: string, create: () => T): T {
+  const registry = globalThis as unknown as Record<symbol, T | undefined>
+  const key = Symbol.for(`chat.${name}`)
+  return registry[key] ??= create()
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { createSSEParser, readServerSentEvents, type ServerSentEvent } from '@/lib/sse'
+
+// Feed the chunks in order, then end the stream
+function parse(chunks: string[]): ServerSentEvent[] {
+  const parser = createSSEParser()
+  return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.end()]
+}
+
+function toStream(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk)
+      controller.close()
+    }
+  })
+}
+
+async function collect(events: AsyncGenerator<ServerSentEvent>): Promise<ServerSentEvent[]> {
+  const collected: ServerSentEvent[] = []
+  for await (const event of events) collected.push(event)
+  return collected
+}
+
+const message = (data: string, id = '') => ({ event: 'message', id, data })
+
+describe('createSSEParser', () => {
+  it.each([
+    ['LF', 'data: a\n\ndata: b\n\n'],
+    ['CRLF', 'data: a\r\n\r\ndata: b\r\n\r\n'],
+    ['CR', 'data: a\r\rdata: b\r\r'],
+    ['mixed', 'data: a\r\n\ndata: b\r\r\n']
+  ])('splits lines ending in %s', (_, text) => {
+    expect(parse([text])).toEqual([message('a'), message('b')])
+  })
+
+  it('treats a CR ending one chunk and an LF starting the next as one line break', () => {
+    expect(parse(['data: a\r', '\n\r', '\ndata: b\r', '\n\r\n'])).toEqual([message('a'), message('b')])
+  })
+
+  it('keeps a lone CR at the end of a chunk as a line break', () => {
+    expect(parse(['data: a\r', 'data: b\r', '\r'])).toEqual([message('a\nb')])
+  })
+
+  it('joins a line split across chunks', () => {
+    expect(parse(['da', 'ta: hel', 'lo\n', '\n'])).toEqual([message('hello')])
+  })
+
+  it('joins multi-line data with newlines', () => {
+    expect(parse(['data: first\ndata: second\ndata\ndata: third\n\n'])).toEqual([message('first\nsecond\n\nthird')])
+  })
+
+  it('reads event and id fields, keeping the last ID for later events', () => {
+    expect(parse(['event: ping\nid: 7\ndata: {}\n\ndata: next\n\n'])).toEqual([
+      { event: 'ping', id: '7', data: '{}' },
+      message('next', '7')
+    ])
+  })
+
+  it('ignores IDs containing NUL', () => {
+    expect(parse(['id: 1\ndata: a\n\nid: 2\0\ndata: b\n\n'])).toEqual([message('a', '1'), message('b', '1')])
+  })
+
+  it('keeps the last valid retry value', () => {
+    const parser = createSSEParser()
+    parser.push('retry: 3000\n\nretry: soon\n\nretry: 1500\n')
+    parser.push('retry: 2.5\n\n')
+    expect(parser.retry).toBe(1500)
+  })
+
+  it('skips comments, unknown fields and events without data', () => {
+    expect(parse([': keep-alive\n\nfoo: bar\nevent: empty\n\ndata: a\n: note\n\n'])).toEqual([message('a')])
+  })
+
+  it('removes only one leading space from values', () => {
+    expect(parse(['data:no space\n\ndata:  two spaces\n\n'])).toEqual([message('no space'), message(' two spaces')])
+  })
+
+  it('dispatches a final event without its trailing newline at end()', () => {
+    const parser = createSSEParser()
+    expect(parser.push('data: a\n\ndata: last')).toEqual([message('a')])
+    expect(parser.end()).toEqual([message('last')])
+  })
+
+  it('dispatches a final event ending in a single newline at end()', () => {
+    expect(parse(['id: 3\ndata: last\n'])).toEqual([message('last', '3')])
+  })
+})
+
+describe('readServerSentEvents', () => {
+  it('reassembles a multi-byte character split across chunks', async () => {
+    const bytes = new TextEncoder().encode('data: héllo 👋\n\n')
+    // Split inside "é" (2 bytes) and inside the emoji (4 bytes)
+    const splitE = bytes.indexOf(0xc3) + 1
+    const splitEmoji = bytes.indexOf(0xf0) + 2
+    const chunks = [bytes.slice(0, splitE), bytes.slice(splitE, splitEmoji), bytes.slice(splitEmoji)]
+
+    expect(await collect(readServerSentEvents(toStream(chunks)))).toEqual([message('héllo 👋')])
+  })
+
+  it('splits byte chunks at CRLF boundaries and flushes the final event', async () => {
+    const encoder = new TextEncoder()
+    const chunks = ['id: 1\r\ndata: a\r', '\n\r\ndata: b'].map(text => encoder.encode(text))
+
+    expect(await collect(readServerSentEvents(toStream(chunks)))).toEqual([message('a', '1'), message('b', '1')])
+  })
+})
@@ -0,0 +1,137 @@
+// Server-sent events parsing, following the WHATWG HTML "event stream" interpretation rules.
+// Decoding the `data` payload (JSON or otherwise) is left to the caller.
+
+export interface ServerSentEvent {
+  // Event type; "message" when the stream doesn't set one
+  event: string
+  // Last event ID at the time of dispatch; carries over from earlier events
+  id: string
+  data: string
+}
+
+export interface SSEParser {
+  // Feed decoded text; returns the events completed by it
+  push(text: string): ServerSentEvent[]
+  // End of stream; dispatches a final event that lacks its trailing blank line
+  end(): ServerSentEvent[]
+  // Reconnection time in milliseconds from the last valid `retry:` field
+  readonly retry: number | null
+}
+
+export function createSSEParser(): SSEParser {
+  // Text of the line being read
+  let line = ''
+  // A CR ended the previous chunk, so a leading LF in the next one belongs to it
+  let skipLineFeed = false
+  let data = ''
+  let eventType = ''
+  let lastEventId = ''
+  let retry: number | null = null
+
+  function dispatch(events: ServerSentEvent[]) {
+    if (data === '') {
+      eventType = ''
+      return
+    }
+    events.push({
+      event: eventType || 'message',
+      id: lastEventId,
+      data: data.endsWith('\n') ? data.slice(0, -1) : data
+    })
+    data = ''
+    eventType = ''
+  }
+
+  function processLine(text: string, events: ServerSentEvent[]) {
+    if (text === '') {
+      dispatch(events)
+      return
+    }
+    // Comment
+    if (text.startsWith(':')) return
+
+    const colon = text.indexOf(':')
+    const field = colon === -1 ? text : text.slice(0, colon)
+    let value = colon === -1 ? '' : text.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    switch (field) {
+      case 'event':
+        eventType = value
+        break
+      case 'data':
+        data += value + '\n'
+        break
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = Number(value)
+        break
+      // Unknown fields are ignored
+    }
+  }
+
+  return {
+    push(text) {
+      const events: ServerSentEvent[] = []
+      let start = 0
+      if (skipLineFeed && text.startsWith('\n')) start = 1
+      if (text.length > 0) skipLineFeed = false
+
+      // Lines end with CRLF, LF or CR
+      for (let i = start; i < text.length; i++) {
+        const char = text[i]
+        if (char !== '\r' && char !== '\n') continue
+
+        processLine(line + text.slice(start, i), events)
+        line = ''
+        if (char === '\r') {
+          if (i + 1 === text.length) {
+            skipLineFeed = true
+          } else if (text[i + 1] === '\n') {
+            i++
+          }
+        }
+        start = i + 1
+      }
+      line += text.slice(start)
+      return events
+    },
+
+    end() {
+      const events: ServerSentEvent[] = []
+      if (line) processLine(line, events)
+      line = ''
+      dispatch(events)
+      return events
+    },
+
+    get retry() {
+      return retry
+    }
+  }
+}
+
+// Read server-sent events from a byte stream. Multi-byte UTF-8 characters split across
+// chunks are reassembled before parsing. A read error propagates without flushing the
+// incomplete event, so callers can reconnect and receive it again.
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  parser: SSEParser = createSSEParser()
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      yield* parser.push(decoder.decode(value, { stream: true }))
+    }
+    yield* parser.push(decoder.decode())
+    yield* parser.end()
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,24 @@
+import type { ContentBlock } from '@anthropic-ai/sdk/resources/messages'
+
+// stop_reason for a reply the user cut short; not one the API itself returns
+export const STOPPED_BY_USER = 'stopped_by_user'
+
+// What a stopped reply can keep and still be sent back as history: tool calls without
+// their result and thinking without a signature would be rejected by the API
+export function keepFinishedContent(content: ContentBlock[]): ContentBlock[] {
+  const resultIds = new Set(content.flatMap(block => 'tool_use_id' in block ? [block.tool_use_id] : []))
+  return content.filter(block => {
+    switch (block.type) {
+      case 'tool_use':
+        return false
+      case 'server_tool_use':
+        return resultIds.has(block.id)
+      case 'thinking':
+        return Boolean(block.signature)
+      case 'text':
+        return block.text !== ''
+      default:
+        return true
+    }
+  })
+}
@@ -0,0 +1,131 @@
+// Buffered SSE events for in-flight generations, so a client that loses its connection
+// can reconnect and replay from the last event it saw
+import { getSingleton } from '@/lib/singleton'
+
+export interface BufferedEvent {
+  id: number
+  data: string
+}
+
+export interface StreamBuffer {
+  // `onCancel` stops the generation feeding the stream
+  create(streamId: string, userId: string, onCancel?: () => void): void
+  // Whether the stream exists and belongs to the user; other users' streams are treated as missing
+  has(streamId: string, userId: string): boolean
+  // Add an event; ids start at 1 and increase by one per stream
+  append(streamId: string, data: string): void
+  // No more events will be added; the stream stays readable until it expires
+  finish(streamId: string): void
+  // Stop the generation; it finishes the stream once it has wound down
+  cancel(streamId: string): void
+  // Buffered events after `afterId`, then new ones as they arrive until the stream finishes
+  read(streamId: string, afterId: number): AsyncGenerator<BufferedEvent>
+  // Number of times the stream has been opened for reading, to detect reconnects
+  readCount(streamId: string): number
+}
+
+interface BufferedStream {
+  // The user whose generation this is
+  userId: string
+  events: BufferedEvent[]
+  finished: boolean
+  // Readers waiting for the next event
+  waiters: Set<() => void>
+  reads: number
+  onCancel?: () => void
+}
+
+// How long a finished stream can still be replayed
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+
+// In-memory buffer; streams are lost on restart and not shared between server instances
+export function createMemoryStreamBuffer(ttlMs = DEFAULT_TTL_MS): StreamBuffer {
+  const streams = new Map<string, BufferedStream>()
+
+  function notify(stream: BufferedStream) {
+    for (const wake of stream.waiters) wake()
+    stream.waiters.clear()
+  }
+
+  return {
+    create(streamId, userId, onCancel) {
+      streams.set(streamId, { userId, events: [], finished: false, waiters: new Set(), reads: 0, onCancel })
+    },
+
+    has(streamId, userId) {
+      return streams.get(streamId)?.userId === userId
+    },
+
+    append(streamId, data) {
+      const stream = streams.get(streamId)
+      if (!stream || stream.finished) return
+      stream.events.push({ id: stream.events.length + 1, data })
+      notify(stream)
+    },
+
+    finish(streamId) {
+      const stream = streams.get(streamId)
+      if (!stream) return
+      stream.finished = true
+      notify(stream)
+      setTimeout(() => streams.delete(streamId), ttlMs)
+    },
+
+    cancel(streamId) {
+      const stream = streams.get(streamId)
+      if (stream && !stream.finished) stream.onCancel?.()
+    },
+
+    async *read(streamId, afterId) {
+      const stream = streams.get(streamId)
+      if (!stream) return
+      stream.reads++
+      // Event ids equal their position, so the cursor doubles as an index
+      let cursor = Math.max(0, afterId)
+      while (true) {
+        while (cursor < stream.events.length) {
+          yield stream.events[cursor++]
+        }
+        if (stream.finished) return
+        await new Promise<void>(resolve => stream.waiters.add(resolve))
+      }
+    },
+
+    readCount(streamId) {
+      return streams.get(streamId)?.reads ?? 0
+    }
+  }
+}
+
+// Shared buffer instance for route handlers
+export function getStreamBuffer(): StreamBuffer {
+  return getSingleton('streamBuffer', () => createMemoryStreamBuffer())
+}
+
+// Serve a buffered stream as server-sent events with an id per event
+export function toSSEResponse(events: AsyncGenerator<BufferedEvent>, headers: Record<string, string> = {}): Response {
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await events.next()
+      if (done) {
+        controller.close()
+        return
+      }
+      controller.enqueue(encoder.encode(`id: ${value.id}\ndata: ${value.data}\n\n`))
+    },
+    async cancel() {
+      // The client went away; the generation keeps buffering for a reconnect
+      await events.return(undefined)
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      ...headers
+    }
+  })
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseSSEStream } from '@/lib/stream-parser'
+
+// A response streaming the text as it is, without closing the stream with [DONE]
+const sseResponse = (text: string, init?: ResponseInit) => new Response(text, {
+  headers: { 'Content-Type': 'text/event-stream' },
+  ...init
+})
+
+const event = (id: number, type: string) => `id: ${id}\ndata: ${JSON.stringify({ type })}\n\n`
+
+// A first connection that drops after one event; `retry: 1` keeps the reconnect delays short
+const dropped = () => sseResponse(`retry: 1\n\n${event(1, 'message_start')}`)
+
+async function collect(events: AsyncGenerator<{ type: string }>): Promise<string[]> {
+  const types: string[] = []
+  for await (const { type } of events) types.push(type)
+  return types
+}
+
+describe('parseSSEStream reconnection', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('counts a reconnect that rejects or returns a 5xx as an attempt and tries again', async () => {
+    const reconnect = vi.fn<(lastEventId: string | null) => Promise<Response>>()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(sseResponse('', { status: 503, statusText: 'Service Unavailable' }))
+      .mockResolvedValueOnce(sseResponse(`${event(2, 'message_stop')}data: [DONE]\n\n`))
+
+    const types = await collect(parseSSEStream(dropped(), { reconnect, maxAttempts: 3 }))
+
+    expect(types).toEqual(['message_start', 'message_stop'])
+    expect(reconnect).toHaveBeenCalledTimes(3)
+    expect(reconnect.mock.calls.every(([lastEventId]) => lastEventId === '1')).toBe(true)
+  })
+
+  it('gives up once every attempt has failed', async () => {
+    const reconnect = vi.fn<(lastEventId: string | null) => Promise<Response>>()
+      .mockRejectedValue(new TypeError('Failed to fetch'))
+
+    await expect(collect(parseSSEStream(dropped(), { reconnect, maxAttempts: 2 }))).rejects.toThrow('Stream disconnected')
+    expect(reconnect).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops at a reconnect the server refuses', async () => {
+    const reconnect = vi.fn<(lastEventId: string | null) => Promise<Response>>()
+      .mockResolvedValue(sseResponse('', { status: 404, statusText: 'Not Found' }))
+
+    await expect(collect(parseSSEStream(dropped(), { reconnect, maxAttempts: 3 }))).rejects.toThrow('Stream reconnect failed: Not Found')
+    expect(reconnect).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not retry a reconnect that was aborted', async () => {
+    const reconnect = vi.fn<(lastEventId: string | null) => Promise<Response>>()
+      .mockRejectedValue(new DOMException('Aborted', 'AbortError'))
+
+    await expect(collect(parseSSEStream(dropped(), { reconnect, maxAttempts: 3 }))).rejects.toThrow('Aborted')
+    expect(reconnect).toHaveBeenCalledTimes(1)
+  })
+})
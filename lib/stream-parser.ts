@@ -1,40 +1,93 @@
 import type { MessageStreamEvent } from '@anthropic-ai/sdk/streaming'
+import { createSSEParser, readServerSentEvents } from '@/lib/sse'
 
-export async function* parseSSEStream(response: Response) {
-  const reader = response.body?.getReader()
-  if (!reader) throw new Error('No response body')
+// Reconnection for streams the server buffers (see /api/chat/[streamId])
+export interface ReconnectOptions {
+  // Open a response that continues after `lastEventId`
+  reconnect: (lastEventId: string | null) => Promise<Response>
+  maxAttempts?: number
+}
 
-  const decoder = new TextDecoder()
-  let buffer = ''
+const DEFAULT_MAX_RECONNECTS = 3
+// Used until the server sends a `retry:` field
+const DEFAULT_RECONNECT_DELAY_MS = 1000
 
+// Open the continuation of a stream; null when the attempt failed in a way worth retrying
+// (the network is down, or the server had a 5xx error)
+async function reconnectAfter(options: ReconnectOptions, lastEventId: string | null): Promise<Response | null> {
+  let response: Response
   try {
-    while (true) {
-      const { done, value } = await reader.read()
-      if (done) break
-
-      buffer += decoder.decode(value, { stream: true })
-      const lines = buffer.split('\n')
-      
-      // Keep the last incomplete line in the buffer
-      buffer = lines.pop() || ''
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6).trim()
-          
-          // Skip the [DONE] message
-          if (data === '[DONE]') continue
-          
+    response = await options.reconnect(lastEventId)
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error
+    console.warn('Stream reconnect failed:', error)
+    return null
+  }
+  if (response.status >= 500) {
+    console.warn('Stream reconnect failed:', response.status, response.statusText)
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(`Stream reconnect failed: ${response.statusText}`)
+  }
+  return response
+}
+
+// Decode an SSE response's JSON payloads into stream events. With `options`, a connection
+// that drops before [DONE] is reopened from the last handled event id, so no event is
+// yielded twice.
+export async function* parseSSEStream(response: Response, options?: ReconnectOptions) {
+  const maxAttempts = options?.maxAttempts ?? DEFAULT_MAX_RECONNECTS
+  let lastEventId: string | null = null
+  let retry: number | null = null
+  let attempts = 0
+  // Null after a reconnect attempt that failed
+  let current: Response | null = response
+
+  while (true) {
+    let finished = false
+
+    if (current) {
+      if (!current.body) throw new Error('No response body')
+      // A fresh parser per connection, so a line cut off by the drop isn't carried over
+      const parser = createSSEParser()
+      try {
+        for await (const { id, data } of readServerSentEvents(current.body, parser)) {
+          // [DONE] marks a complete stream
+          if (data === '[DONE]') {
+            finished = true
+            continue
+          }
+
+          let parsed: MessageStreamEvent
           try {
-            const parsed = JSON.parse(data) as MessageStreamEvent
-            yield parsed
-          } catch (e) {
+            parsed = JSON.parse(data)
+          } catch {
             console.error('Failed to parse SSE data:', data)
+            continue
           }
+          // Only handled events move the resume point
+          if (id) lastEventId = id
+          attempts = 0
+          yield parsed
         }
+      } catch (error) {
+        // Cancelled by the caller, or nowhere to reconnect to
+        if (!options || (error as Error).name === 'AbortError') throw error
+        console.warn('Stream connection lost:', error)
       }
+      retry = parser.retry ?? retry
     }
-  } finally {
-    reader.releaseLock()
+
+    if (finished || !options) return
+    if (attempts >= maxAttempts) {
+      throw new Error('Stream disconnected')
+    }
+    attempts++
+    const delay = retry ?? DEFAULT_RECONNECT_DELAY_MS
+    await new Promise(resolve => setTimeout(resolve, delay * attempts))
+
+    console.log('Reconnecting stream after event', lastEventId)
+    current = await reconnectAfter(options, lastEventId)
   }
-}
\ No newline at end of file
+}
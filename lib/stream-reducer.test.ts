@@ -0,0 +1,225 @@
+import fs from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { applyStreamEvent, type StreamingMessage } from '@/lib/stream-reducer'
+import type { ChatFixture } from '@/lib/mock-chat'
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'chat')
+
+// The streamed events of one recorded response
+function loadEvents(name: string, round = 0): { type: string }[] {
+  const fixture: ChatFixture = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'))
+  return (fixture.responses[round].steps ?? []).flatMap(step => 'data' in step ? [step.data as { type: string }] : [])
+}
+
+// A reply before its message_start, as the store creates it
+const EMPTY_MESSAGE = {
+  id: 'msg_local',
+  type: 'message',
+  role: 'assistant',
+  model: '',
+  content: [],
+  stop_reason: null,
+  stop_sequence: null,
+  usage: { input_tokens: 0, output_tokens: 0 }
+} as unknown as StreamingMessage
+
+const fold = (events: { type: string }[], message = EMPTY_MESSAGE) => events.reduce(applyStreamEvent, message)
+
+type Block = { type: string, [key: string]: unknown }
+const blocks = (message: StreamingMessage) => message.content as unknown as Block[]
+const textOf = (message: StreamingMessage) => blocks(message).filter(block => block.type === 'text').map(block => block.text).join('')
+
+interface Case {
+  fixture: string
+  round?: number
+  id: string
+  stopReason: string | null
+  // Usage after message_start and message_delta are merged
+  usage: Record<string, unknown>
+  blockTypes: string[]
+  check?: (message: StreamingMessage) => void
+}
+
+const CASES: Case[] = [
+  {
+    fixture: 'text',
+    id: 'msg_mock_text_01',
+    stopReason: 'end_turn',
+    usage: { input_tokens: 412, output_tokens: 40, cache_read_input_tokens: 0 },
+    blockTypes: ['text'],
+    check: message => expect(textOf(message)).toMatch(/^Server-sent events are a simple way.*where it left off\.$/)
+  },
+  {
+    fixture: 'thinking',
+    id: 'msg_mock_thinking_01',
+    stopReason: 'end_turn',
+    usage: { input_tokens: 236, output_tokens: 66 },
+    blockTypes: ['thinking', 'text'],
+    check: message => {
+      const [thinking] = blocks(message)
+      expect(thinking.thinking).toMatch(/^The user wants to know how many weekdays.*so 21\.$/)
+      expect(thinking.signature).toMatch(/^EqQBCkYIBBgC/)
+      expect(textOf(message)).toContain('21 weekdays')
+    }
+  },
+  {
+    fixture: 'redacted-thinking',
+    id: 'msg_mock_redacted_01',
+    stopReason: 'end_turn',
+    usage: { input_tokens: 248, output_tokens: 58 },
+    blockTypes: ['redacted_thinking', 'thinking', 'text'],
+    check: message => {
+      const [redacted, thinking] = blocks(message)
+      expect(redacted).toEqual({ type: 'redacted_thinking', data: expect.stringMatching(/^EmwKAhgB/) })
+      expect(thinking.signature).toMatch(/^EqQBCkYIBBgC/)
+    }
+  },
+  {
+    fixture: 'tool-use',
+    id: 'msg_mock_tool_01',
+    stopReason: 'tool_use',
+    usage: { input_tokens: 655, output_tokens: 19 },
+    blockTypes: ['text', 'tool_use'],
+    check: message => {
+      const toolUse = blocks(message)[1]
+      expect(toolUse).toEqual({
+        type: 'tool_use',
+        id: 'toolu_mock_weather_01',
+        name: 'get_weather',
+        input: { location: 'Lisbon, Portugal', unit: 'celsius' }
+      })
+    }
+  },
+  {
+    fixture: 'tool-use',
+    round: 1,
+    id: 'msg_mock_tool_02',
+    stopReason: 'end_turn',
+    usage: { input_tokens: 742, output_tokens: 18 },
+    blockTypes: ['text']
+  },
+  {
+    fixture: 'web-search',
+    id: 'msg_mock_search_01',
+    stopReason: 'end_turn',
+    usage: { input_tokens: 2143, output_tokens: 39, server_tool_use: { web_search_requests: 1 } },
+    blockTypes: ['text', 'server_tool_use', 'web_search_tool_result', 'text', 'text'],
+    check: message => {
+      const [, search, results, cited, citedAgain] = blocks(message)
+      expect(search.input).toEqual({ query: 'server-sent events retry field specification' })
+      expect(results.content).toHaveLength(3)
+      expect(cited.citations).toEqual([expect.objectContaining({
+        type: 'web_search_result_location',
+        url: 'https://html.spec.whatwg.org/multipage/server-sent-events.html'
+      })])
+      expect(citedAgain.citations).toEqual([expect.objectContaining({
+        url: 'https://developer.mozilla.org/en-US/docs/Web/API/Server-sent_events/Using_server-sent_events'
+      })])
+    }
+  },
+  {
+    fixture: 'code-execution',
+    id: 'msg_mock_code_01',
+    stopReason: 'end_turn',
+    usage: { input_tokens: 1820, output_tokens: 45 },
+    blockTypes: ['text', 'server_tool_use', 'code_execution_tool_result', 'text'],
+    check: message => {
+      const [, call, result] = blocks(message)
+      expect(call.input).toEqual({ code: expect.stringContaining('statistics.stdev(values)') })
+      expect(result).toEqual({
+        type: 'code_execution_tool_result',
+        tool_use_id: 'srvtoolu_mock_code_01',
+        content: { type: 'code_execution_result', stdout: '15\n4.949747468305833\n', stderr: '', return_code: 0, content: [] }
+      })
+    }
+  },
+  {
+    fixture: 'disconnect',
+    id: 'msg_mock_disconnect_01',
+    stopReason: 'end_turn',
+    usage: { input_tokens: 412, output_tokens: 24 },
+    blockTypes: ['text']
+  },
+  {
+    // The error event leaves the partial reply as it was
+    fixture: 'error-mid-stream',
+    id: 'msg_mock_midstream_01',
+    stopReason: null,
+    usage: { input_tokens: 412, output_tokens: 1 },
+    blockTypes: ['text'],
+    check: message => expect(textOf(message)).toBe('Here is the first part of a reply that fails partway through because')
+  }
+]
+
+describe('applyStreamEvent over recorded fixtures', () => {
+  it.each(CASES)('$fixture → $id', ({ fixture, round, id, stopReason, usage, blockTypes, check }) => {
+    const message = fold(loadEvents(fixture, round))
+
+    expect(message.id).toBe(id)
+    expect(message.stop_reason).toBe(stopReason)
+    expect(message.usage).toMatchObject(usage)
+    expect(blocks(message).map(block => block.type)).toEqual(blockTypes)
+    // Raw tool input is only kept while the block streams
+    expect(blocks(message).every(block => !('partial_json' in block))).toBe(true)
+    check?.(message)
+  })
+})
+
+describe('applyStreamEvent', () => {
+  it('does not change the message it is given', () => {
+    let message = EMPTY_MESSAGE
+    for (const event of loadEvents('tool-use')) {
+      const previous = message
+      const before = JSON.stringify(previous)
+      message = applyStreamEvent(previous, event)
+      expect(JSON.stringify(previous)).toBe(before)
+    }
+  })
+
+  it('shows best-effort tool input while streaming and parses it at content_block_stop', () => {
+    const events = loadEvents('tool-use')
+    const stopIndex = events.findIndex(event => event.type === 'content_block_stop' && (event as { index?: number }).index === 1)
+    const lastDelta = stopIndex - 1
+
+    const partial = fold(events.slice(0, lastDelta))
+    expect(blocks(partial)[1]).toMatchObject({
+      input: { location: 'Lisbon, Portugal', unit: 'celsiu' },
+      partial_json: '{"location": "Lisbon, Portugal", "unit": "celsiu'
+    })
+
+    const streamed = fold(events.slice(0, stopIndex))
+    expect(blocks(streamed)[1].partial_json).toBe('{"location": "Lisbon, Portugal", "unit": "celsius"}')
+
+    const stopped = fold(events.slice(0, stopIndex + 1))
+    expect(blocks(stopped)[1]).not.toHaveProperty('partial_json')
+    expect(blocks(stopped)[1].input).toEqual({ location: 'Lisbon, Portugal', unit: 'celsius' })
+  })
+
+  it('merges usage from message_start and message_delta', () => {
+    const start = {
+      type: 'message_start',
+      message: { ...EMPTY_MESSAGE, id: 'msg_1', usage: { input_tokens: 10, output_tokens: 1, cache_read_input_tokens: 5 } }
+    }
+    const delta = {
+      type: 'message_delta',
+      delta: { stop_reason: 'end_turn', stop_sequence: null },
+      usage: { output_tokens: 30, server_tool_use: { web_search_requests: 2 } }
+    }
+    const message = fold([start, delta])
+
+    expect(message.usage).toMatchObject({
+      input_tokens: 10,
+      output_tokens: 30,
+      cache_read_input_tokens: 5,
+      server_tool_use: { web_search_requests: 2 }
+    })
+    expect(message.stop_reason).toBe('end_turn')
+  })
+
+  it('returns the same message for events it does not handle', () => {
+    const message = fold(loadEvents('text'))
+    expect(applyStreamEvent(message, { type: 'ping' })).toBe(message)
+    expect(applyStreamEvent(message, { type: 'message_stop' })).toBe(message)
+  })
+})
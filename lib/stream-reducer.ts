@@ -0,0 +1,104 @@
+import type {
+  BetaContentBlock,
+  BetaMessage,
+  BetaRawContentBlockDelta,
+  BetaRawMessageStreamEvent
+} from '@anthropic-ai/sdk/resources/beta/messages/messages'
+import type { MessageDeltaUsage, Usage } from '@anthropic-ai/sdk/resources/messages'
+import { parsePartialJSON } from '@/lib/partial-json'
+import { mergeUsage } from '@/lib/usage'
+
+// A content block as it streams in. Tool calls keep their raw input JSON in `partial_json`
+// until the block stops, while `input` holds a best-effort parse of it.
+export type StreamingBlock = BetaContentBlock & { partial_json?: string }
+
+export type StreamingMessage = Omit<BetaMessage, 'content' | 'container'> & {
+  content: StreamingBlock[]
+  container?: BetaMessage['container']
+}
+
+// Blocks whose input arrives as input_json_delta
+const hasToolInput = (block: StreamingBlock): block is Extract<StreamingBlock, { input: unknown }> =>
+  block.type === 'tool_use' || block.type === 'server_tool_use' || block.type === 'mcp_tool_use'
+
+function applyDelta(block: StreamingBlock, delta: BetaRawContentBlockDelta): StreamingBlock {
+  switch (delta.type) {
+    case 'text_delta':
+      return block.type === 'text' ? { ...block, text: block.text + delta.text } : block
+    case 'citations_delta':
+      return block.type === 'text' ? { ...block, citations: [...(block.citations ?? []), delta.citation] } : block
+    case 'thinking_delta':
+      return block.type === 'thinking' ? { ...block, thinking: block.thinking + delta.thinking } : block
+    case 'signature_delta':
+      // Sent once, just before the thinking block stops; required to send the block back
+      return block.type === 'thinking' ? { ...block, signature: delta.signature } : block
+    case 'input_json_delta': {
+      if (!hasToolInput(block)) return block
+      const partialJSON = (block.partial_json ?? '') + delta.partial_json
+      let input = block.input
+      try {
+        input = parsePartialJSON(partialJSON) ?? input
+      } catch {
+        // Keep the previous input until the JSON becomes parseable again
+      }
+      return { ...block, input, partial_json: partialJSON }
+    }
+    default:
+      return block
+  }
+}
+
+// Tool input is complete once its block stops
+function finishBlock(block: StreamingBlock): StreamingBlock {
+  if (!hasToolInput(block) || block.partial_json === undefined) return block
+  const { partial_json: partialJSON, ...finished } = block
+  try {
+    return { ...finished, input: partialJSON.trim() ? JSON.parse(partialJSON) : {} }
+  } catch {
+    // Malformed input: keep the best-effort value
+    return finished
+  }
+}
+
+function updateBlock<M extends StreamingMessage>(message: M, index: number, update: (block: StreamingBlock) => StreamingBlock): M {
+  const block = message.content[index]
+  if (!block) return message
+  const content = [...message.content]
+  content[index] = update(block)
+  return { ...message, content }
+}
+
+// Apply one streaming event to the message it belongs to, returning a new message. Covers
+// every block type (tool results arrive whole in content_block_start) and every delta type.
+// Unknown events, such as `ping`, leave the message as it is.
+export function applyStreamEvent<M extends StreamingMessage>(message: M, event: BetaRawMessageStreamEvent | { type: string }): M {
+  const streamEvent = event as BetaRawMessageStreamEvent
+  switch (streamEvent.type) {
+    case 'message_start':
+      // Carries the server's message ID and the input token counts
+      return { ...message, ...streamEvent.message, content: [...streamEvent.message.content] }
+
+    case 'content_block_start': {
+      const content = [...message.content]
+      content[streamEvent.index] = streamEvent.content_block
+      return { ...message, content }
+    }
+
+    case 'content_block_delta':
+      return updateBlock(message, streamEvent.index, block => applyDelta(block, streamEvent.delta))
+
+    case 'content_block_stop':
+      return updateBlock(message, streamEvent.index, finishBlock)
+
+    case 'message_delta':
+      return {
+        ...message,
+        stop_reason: streamEvent.delta.stop_reason ?? message.stop_reason,
+        stop_sequence: streamEvent.delta.stop_sequence ?? message.stop_sequence,
+        usage: mergeUsage(message.usage as Usage, streamEvent.usage as MessageDeltaUsage)
+      }
+
+    default:
+      return message
+  }
+}
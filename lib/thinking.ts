@@ -0,0 +1,59 @@
+import type { MessageParam, ThinkingConfigParam } from '@anthropic-ai/sdk/resources/messages'
+
+type Block = { type: string, [key: string]: unknown }
+
+export interface ThinkingHistory {
+  messages: MessageParam[]
+  thinking: ThinkingConfigParam | undefined
+}
+
+const isThinking = (block: Block) => block.type === 'thinking' || block.type === 'redacted_thinking'
+
+// A thinking block exactly as the API sent it; null when it can't be sent back. The API
+// checks signatures, so the reasoning can't be edited, and an unsigned block (cut off
+// before its signature_delta, or stored before signatures were kept) is rejected.
+function toThinkingParam(block: Block): Block | null {
+  if (block.type === 'thinking') {
+    return typeof block.signature === 'string' && block.signature
+      ? { type: 'thinking', thinking: block.thinking, signature: block.signature }
+      : null
+  }
+  // Encrypted reasoning goes back as it came, for the model to pick up where it left off
+  return typeof block.data === 'string' && block.data ? { type: 'redacted_thinking', data: block.data } : null
+}
+
+// The assistant message a trailing tool_result answers; the model is still in that turn
+function pendingToolUse(messages: MessageParam[]): MessageParam | null {
+  const last = messages[messages.length - 1]
+  const previous = messages[messages.length - 2]
+  const answersTools = last?.role === 'user' && Array.isArray(last.content) &&
+    last.content.some(block => block.type === 'tool_result')
+  return answersTools && previous?.role === 'assistant' ? previous : null
+}
+
+// Prepare a conversation's thinking blocks to be sent back to the API: signed thinking and
+// redacted_thinking are replayed unchanged and in place, including between tool calls with
+// interleaved thinking, and blocks the API would reject are dropped. With thinking on, a
+// tool loop must continue from a reply that starts with its thinking; if that reply has
+// none, e.g. because thinking was just switched on, thinking stays off until the loop ends.
+export function prepareThinkingHistory(
+  messages: MessageParam[],
+  thinking: ThinkingConfigParam | undefined
+): ThinkingHistory {
+  const prepared = messages.map((message): MessageParam => {
+    if (message.role !== 'assistant' || !Array.isArray(message.content)) return message
+    const content = (message.content as unknown as Block[]).flatMap(block => {
+      if (!isThinking(block)) return [block]
+      const param = toThinkingParam(block)
+      return param ? [param] : []
+    })
+    return { ...message, content } as unknown as MessageParam
+  })
+
+  const toolUse = pendingToolUse(prepared)
+  if (thinking?.type === 'enabled' && toolUse) {
+    const first = (toolUse.content as unknown as Block[])[0]
+    if (!first || !isThinking(first)) return { messages: prepared, thinking: undefined }
+  }
+  return { messages: prepared, thinking }
+}
@@ -0,0 +1,104 @@
+import type { Message } from '@anthropic-ai/sdk/resources/messages'
+import { createJSONFile, getDataPath } from '@/lib/json-file'
+import { getSingleton } from '@/lib/singleton'
+
+// Thread as stored on the server; dates are ISO strings
+export interface StoredThread {
+  id: string
+  // The user the thread belongs to; other users can neither see nor change it
+  userId: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messages: Message[]
+}
+
+export type ThreadSummary = Omit<StoredThread, 'messages' | 'userId'>
+
+// Storage backend for server-side threads; every operation is scoped to one user
+export interface ThreadStorage {
+  listThreads: (userId: string) => Promise<ThreadSummary[]>
+  // Null when the ID is already taken by another user's thread
+  createThread: (userId: string, thread: { id?: string, title?: string }) => Promise<StoredThread | null>
+  getThread: (userId: string, threadId: string) => Promise<StoredThread | null>
+  renameThread: (userId: string, threadId: string, title: string) => Promise<StoredThread | null>
+  deleteThread: (userId: string, threadId: string) => Promise<boolean>
+  // Appends the message, or replaces an existing message with the same ID
+  appendMessage: (userId: string, threadId: string, message: Message) => Promise<StoredThread | null>
+}
+
+// Keeps every thread in a single JSON file
+export function createJSONFileStorage(filePath: string): ThreadStorage {
+  const { run } = createJSONFile<Record<string, StoredThread>>(filePath, () => ({}))
+
+  // Threads of other users are treated as missing
+  const owned = (threads: Record<string, StoredThread>, userId: string, threadId: string) => {
+    const thread = threads[threadId]
+    return thread?.userId === userId ? thread : null
+  }
+
+  return {
+    listThreads: (userId) => run(async (threads) =>
+      Object.values(threads)
+        .filter(thread => thread.userId === userId)
+        .map(({ id, title, createdAt, updatedAt }) => ({ id, title, createdAt, updatedAt }))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    ),
+
+    createThread: (userId, { id, title }) => run(async (threads, save) => {
+      const now = new Date().toISOString()
+      const thread: StoredThread = {
+        id: id || `thread_${Date.now()}`,
+        userId,
+        title: title || 'New Chat',
+        createdAt: now,
+        updatedAt: now,
+        messages: []
+      }
+      const existing = threads[thread.id]
+      if (existing) return existing.userId === userId ? existing : null
+      threads[thread.id] = thread
+      await save()
+      return thread
+    }),
+
+    getThread: (userId, threadId) => run(async (threads) => owned(threads, userId, threadId)),
+
+    renameThread: (userId, threadId, title) => run(async (threads, save) => {
+      const thread = owned(threads, userId, threadId)
+      if (!thread) return null
+      thread.title = title
+      thread.updatedAt = new Date().toISOString()
+      await save()
+      return thread
+    }),
+
+    deleteThread: (userId, threadId) => run(async (threads, save) => {
+      if (!owned(threads, userId, threadId)) return false
+      delete threads[threadId]
+      await save()
+      return true
+    }),
+
+    appendMessage: (userId, threadId, message) => run(async (threads, save) => {
+      const thread = owned(threads, userId, threadId)
+      if (!thread) return null
+      const existingIndex = thread.messages.findIndex(m => m.id === message.id)
+      if (existingIndex >= 0) {
+        thread.messages[existingIndex] = message
+      } else {
+        thread.messages.push(message)
+      }
+      thread.updatedAt = new Date().toISOString()
+      await save()
+      return thread
+    })
+  }
+}
+
+// Shared storage instance for route handlers
+export function getThreadStorage(): ThreadStorage {
+  return getSingleton('threadStorage', () =>
+    createJSONFileStorage(getDataPath(process.env.THREAD_STORAGE_PATH, 'threads.json'))
+  )
+}
@@ -0,0 +1,51 @@
+import type { Tool, ToolUseBlock, ToolResultBlockParam } from '@anthropic-ai/sdk/resources/messages'
+
+// Client-defined tool: the schema is sent to the model, the handler runs in the browser
+export interface ClientTool {
+  name: string
+  description?: string
+  input_schema: Tool.InputSchema
+  handler: (input: unknown, options: { signal: AbortSignal }) => Promise<unknown>
+}
+
+// Strip the handler so the tool can be sent in the request's `tools` array
+export function toToolDefinition({ name, description, input_schema }: ClientTool): Tool {
+  return { name, description, input_schema }
+}
+
+// Execute each tool_use block against the registry and collect the tool_result blocks
+export async function runClientTools(
+  tools: Record<string, ClientTool>,
+  toolUses: ToolUseBlock[],
+  signal: AbortSignal
+): Promise<ToolResultBlockParam[]> {
+  return Promise.all(toolUses.map(async (toolUse): Promise<ToolResultBlockParam> => {
+    const tool = tools[toolUse.name]
+    if (!tool) {
+      return {
+        type: 'tool_result',
+        tool_use_id: toolUse.id,
+        content: `Unknown tool: ${toolUse.name}`,
+        is_error: true
+      }
+    }
+
+    try {
+      const result = await tool.handler(toolUse.input, { signal })
+      return {
+        type: 'tool_result',
+        tool_use_id: toolUse.id,
+        content: typeof result === 'string' ? result : JSON.stringify(result) ?? ''
+      }
+    } catch (error) {
+      // Let aborts propagate so the whole turn stops
+      if (error instanceof Error && error.name === 'AbortError') throw error
+      return {
+        type: 'tool_result',
+        tool_use_id: toolUse.id,
+        content: error instanceof Error ? error.message : 'Tool execution failed',
+        is_error: true
+      }
+    }
+  }))
+}
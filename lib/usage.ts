@@ -0,0 +1,109 @@
+import type { Usage, MessageDeltaUsage } from '@anthropic-ai/sdk/resources/messages'
+
+// Token counts flattened from the API's usage objects, with nulls treated as zero
+export interface TokenUsage {
+  input_tokens: number
+  output_tokens: number
+  cache_creation_input_tokens: number
+  cache_read_input_tokens: number
+  web_search_requests: number
+}
+
+// Usage and its dollar cost
+export interface UsageTotal {
+  usage: TokenUsage
+  cost: number
+}
+
+export const EMPTY_USAGE: TokenUsage = {
+  input_tokens: 0,
+  output_tokens: 0,
+  cache_creation_input_tokens: 0,
+  cache_read_input_tokens: 0,
+  web_search_requests: 0
+}
+
+// USD per million tokens
+interface ModelPricing {
+  input: number
+  output: number
+  cacheWrite: number
+  cacheRead: number
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4-20250514': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 }
+}
+
+// USD per web search request ($10 per 1,000)
+export const WEB_SEARCH_PRICE = 0.01
+
+// message_start carries the input counts; message_delta carries cumulative output
+// counts and may repeat the input counts. Later non-null values win.
+export function mergeUsage(current: Usage, delta: Partial<MessageDeltaUsage>): Usage {
+  return {
+    ...current,
+    input_tokens: delta.input_tokens ?? current.input_tokens,
+    output_tokens: delta.output_tokens ?? current.output_tokens,
+    cache_creation_input_tokens: delta.cache_creation_input_tokens ?? current.cache_creation_input_tokens,
+    cache_read_input_tokens: delta.cache_read_input_tokens ?? current.cache_read_input_tokens,
+    server_tool_use: delta.server_tool_use ?? current.server_tool_use
+  }
+}
+
+export function toTokenUsage(usage: Partial<Usage> | null | undefined): TokenUsage {
+  return {
+    input_tokens: usage?.input_tokens ?? 0,
+    output_tokens: usage?.output_tokens ?? 0,
+    cache_creation_input_tokens: usage?.cache_creation_input_tokens ?? 0,
+    cache_read_input_tokens: usage?.cache_read_input_tokens ?? 0,
+    web_search_requests: usage?.server_tool_use?.web_search_requests ?? 0
+  }
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    input_tokens: a.input_tokens + b.input_tokens,
+    output_tokens: a.output_tokens + b.output_tokens,
+    cache_creation_input_tokens: a.cache_creation_input_tokens + b.cache_creation_input_tokens,
+    cache_read_input_tokens: a.cache_read_input_tokens + b.cache_read_input_tokens,
+    web_search_requests: a.web_search_requests + b.web_search_requests
+  }
+}
+
+// Dollar cost of a response; unknown models are priced at zero rather than guessed
+export function calculateCost(model: string, usage: TokenUsage): number {
+  const pricing = MODEL_PRICING[model]
+  if (!pricing) return 0
+  return (
+    usage.input_tokens * pricing.input +
+    usage.output_tokens * pricing.output +
+    usage.cache_creation_input_tokens * pricing.cacheWrite +
+    usage.cache_read_input_tokens * pricing.cacheRead
+  ) / 1_000_000 + usage.web_search_requests * WEB_SEARCH_PRICE
+}
+
+// Total usage and cost of the assistant messages in a list
+export function sumUsage(messages: { role: string, model: string, usage: Partial<Usage> | null }[]): UsageTotal {
+  return messages
+    .filter(message => message.role === 'assistant')
+    .reduce((total, message) => {
+      const usage = toTokenUsage(message.usage)
+      return {
+        usage: addUsage(total.usage, usage),
+        cost: total.cost + calculateCost(message.model, usage)
+      }
+    }, { usage: EMPTY_USAGE, cost: 0 })
+}
+
+// Local calendar day a usage record belongs to, as YYYY-MM-DD
+export function toDayKey(date: Date): string {
+  return date.toLocaleDateString('en-CA')
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`
+}
@@ -0,0 +1,44 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { getSingleton } from '@/lib/singleton'
+
+export interface User {
+  id: string
+  name: string
+}
+
+// Where users and their passwords come from; swap in a database or an identity provider
+export interface UserProvider {
+  // The user with these credentials, or null
+  authenticate: (username: string, password: string) => Promise<User | null>
+  getUser: (userId: string) => Promise<User | null>
+}
+
+// Compare digests so the comparison takes the same time whatever the input
+const digest = (value: string) => createHash('sha256').update(value).digest()
+
+// Users listed in an environment variable as `name:password` pairs separated by commas
+export function createEnvUserProvider(config: string): UserProvider {
+  const passwords = new Map<string, Buffer>()
+  for (const entry of config.split(',')) {
+    const separator = entry.indexOf(':')
+    const name = entry.slice(0, separator).trim()
+    if (separator > 0 && name) passwords.set(name, digest(entry.slice(separator + 1)))
+  }
+
+  return {
+    async authenticate(username, password) {
+      const expected = passwords.get(username)
+      if (!expected || !timingSafeEqual(expected, digest(password))) return null
+      return { id: username, name: username }
+    },
+
+    async getUser(userId) {
+      return passwords.has(userId) ? { id: userId, name: userId } : null
+    }
+  }
+}
+
+// Shared provider for route handlers, configured with AUTH_USERS
+export function getUserProvider(): UserProvider {
+  return getSingleton('userProvider', () => createEnvUserProvider(process.env.AUTH_USERS ?? ''))
+}
@@ -0,0 +1,65 @@
+import type {
+  BetaContentBlock,
+  BetaWebSearchToolResultErrorCode
+} from '@anthropic-ai/sdk/resources/beta/messages/messages'
+
+// A page web search found, with what the reply quoted from it
+export interface Source {
+  url: string
+  title: string
+  pageAge: string | null
+  // The query that found it; null for pages only known from a citation
+  query: string | null
+  citedTexts: string[]
+}
+
+const ERROR_MESSAGES: Record<BetaWebSearchToolResultErrorCode, string> = {
+  invalid_tool_input: 'The search query was invalid',
+  unavailable: 'Web search is currently unavailable',
+  max_uses_exceeded: 'The search limit for this request was reached',
+  too_many_requests: 'Too many searches, try again shortly',
+  query_too_long: 'The search query was too long'
+}
+
+export function describeSearchError(errorCode: BetaWebSearchToolResultErrorCode): string {
+  return ERROR_MESSAGES[errorCode] ?? `Web search failed: ${errorCode}`
+}
+
+// Every page a reply's searches returned, in order, each with the passages citing it
+export function collectSources(content: BetaContentBlock[]): Source[] {
+  const queries = new Map<string, string>()
+  for (const block of content) {
+    const query = block.type === 'server_tool_use' && block.name === 'web_search'
+      ? (block.input as { query?: unknown } | undefined)?.query
+      : undefined
+    if (block.type === 'server_tool_use' && typeof query === 'string') queries.set(block.id, query)
+  }
+
+  const sources = new Map<string, Source>()
+  for (const block of content) {
+    if (block.type !== 'web_search_tool_result' || !Array.isArray(block.content)) continue
+    for (const result of block.content) {
+      if (sources.has(result.url)) continue
+      sources.set(result.url, {
+        url: result.url,
+        title: result.title,
+        pageAge: result.page_age,
+        query: queries.get(block.tool_use_id) ?? null,
+        citedTexts: []
+      })
+    }
+  }
+
+  for (const block of content) {
+    if (block.type !== 'text') continue
+    for (const citation of block.citations ?? []) {
+      if (citation.type !== 'web_search_result_location') continue
+      const source = sources.get(citation.url) ?? {
+        url: citation.url, title: citation.title ?? citation.url, pageAge: null, query: null, citedTexts: []
+      }
+      if (!source.citedTexts.includes(citation.cited_text)) source.citedTexts.push(citation.cited_text)
+      sources.set(citation.url, source)
+    }
+  }
+  return [...sources.values()]
+}
@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { SESSION_COOKIE, USER_ID_HEADER, TOKEN_ID_HEADER, getAuthSecret, verifyCredential, type Credential } from '@/lib/session'
+
+// API routes reachable without signing in
+const PUBLIC_PATHS = new Set(['/api/auth/login'])
+
+// A bearer token when the request has an Authorization header, otherwise the session cookie
+async function authenticate(request: NextRequest, secret: string): Promise<Credential | null> {
+  const authorization = request.headers.get('authorization')
+  if (authorization) {
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization)
+    const credential = match ? await verifyCredential(match[1], secret) : null
+    return credential?.typ === 'token' ? credential : null
+  }
+
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value
+  const credential = cookie ? await verifyCredential(cookie, secret) : null
+  return credential?.typ === 'session' ? credential : null
+}
+
+// Every API route requires a signed-in user; route handlers read who it is from the
+// headers set here (see getRequestUser). Token revocation is checked there, since it
+// needs the token store.
+export async function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers)
+  headers.delete(USER_ID_HEADER)
+  headers.delete(TOKEN_ID_HEADER)
+
+  if (PUBLIC_PATHS.has(request.nextUrl.pathname)) {
+    return NextResponse.next({ request: { headers } })
+  }
+
+  const secret = getAuthSecret()
+  if (!secret) {
+    return Response.json({ error: 'Server auth not configured' }, { status: 500 })
+  }
+
+  const credential = await authenticate(request, secret)
+  if (!credential) {
+    return Response.json(
+      { error: 'Authentication required' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    )
+  }
+
+  headers.set(USER_ID_HEADER, credential.sub)
+  if (credential.typ === 'token') headers.set(TOKEN_ID_HEADER, credential.tid)
+  return NextResponse.next({ request: { headers } })
+}
+
+export const config = {
+  matcher: '/api/:path*'
+}
@@ -1,25 +1,42 @@
 import { create } from 'zustand'
+import { persist, createJSONStorage } from 'zustand/middleware'
 import type { Message, ContentBlock } from '@anthropic-ai/sdk'
+import type { Usage } from '@anthropic-ai/sdk/resources/messages'
+import { toToolDefinition, runClientTools, type ClientTool } from '@/lib/tools'
+import { applyStreamEvent } from '@/lib/stream-reducer'
+import { idbStorage } from '@/lib/idb-storage'
+import { DEFAULT_SETTINGS, toGenerationParams, getContextWindow, type ChatSettings } from '@/lib/settings'
+import { DEFAULT_PRESETS, fillTemplate, type PromptPreset } from '@/lib/prompts'
+import { getActivePath, getSiblings, findLatestLeaf, toLinearTree, type TreeMessage } from '@/lib/message-tree'
+import { toTokenUsage, addUsage, calculateCost, sumUsage, toDayKey, formatCost, EMPTY_USAGE, type UsageTotal } from '@/lib/usage'
+import { ChatRequestError, fromErrorResponse, isRetryable, retryDelay, formatChatError } from '@/lib/chat-errors'
+import { keepFinishedContent, STOPPED_BY_USER } from '@/lib/stop'
+import { validateAttachment, encodedSize, toContentBlock, shouldUpload, uploadAttachment, MAX_REQUEST_BYTES, type Attachment } from '@/lib/attachments'
+
+// Upper bound on automatic tool round-trips for a single submit
+const MAX_TOOL_ROUNDS = 10
+
+// Retries for rate-limited or overloaded requests before any content has streamed
+const MAX_RETRIES = 3
 
 // Thread type
 interface Thread {
   id: string
   title: string
+  // Where the title came from; only default titles are replaced by generated ones
+  titleSource: 'default' | 'generated' | 'user'
   createdAt: Date
   updatedAt: Date
-  messages: Message[]
+  // Every message in every branch; the active branch ends at activeLeafId
+  messages: TreeMessage<Message>[]
+  activeLeafId: string | null
+  settings: ChatSettings
+  // System prompt template and the values for its {{variables}}
+  systemPrompt: string
+  promptVariables: Record<string, string>
   abortController?: AbortController
 }
 
-// Attachment type for file uploads
-interface Attachment {
-  id: string
-  name: string
-  type: string
-  size: number
-  content?: string
-}
-
 // Artifact type for code/documents that Claude generates
 interface Artifact {
   id: string
@@ -41,7 +58,7 @@ interface ChatStore {
   threads: Thread[]
   selectedThreadId: string | null
   
-  // Messages (for current thread)
+  // Messages on the active branch of the current thread
   messages: Message[]
   
   // Input State
@@ -52,38 +69,242 @@ interface ChatStore {
   artifacts: Artifact[]
   selectedArtifactId: string | null
   
+  // Client Tools (keyed by name)
+  tools: Record<string, ClientTool>
+  
+  // Settings that new threads inherit
+  defaultSettings: ChatSettings
+  
+  // System prompt presets
+  presets: PromptPreset[]
+  
+  // Usage and cost per local day (YYYY-MM-DD), kept even when threads are deleted
+  dailyUsage: Record<string, UsageTotal>
+  // Daily spend limit in USD; null for no limit
+  spendCap: number | null
+  
   // UI Actions
   toggleSidebar: () => void
   setActiveModal: (modal: 'settings' | 'newThread' | null) => void
   setSelectedView: (view: 'chat' | 'artifacts' | 'documents') => void
   
   // Thread Actions
-  createThread: (title?: string) => string
+  createThread: (title?: string, options?: { presetId?: string, variables?: Record<string, string> }) => string
   selectThread: (threadId: string | null) => void
   deleteThread: (threadId: string) => void
+  renameThread: (threadId: string, title: string) => void
+  generateTitle: (threadId: string) => Promise<void>
+  loadThreads: () => Promise<void>
+  // Forget the threads, presets and usage kept in this browser, e.g. when the user signs out
+  clearLocalData: () => void
+  updateThreadSettings: (threadId: string, updates: Partial<ChatSettings>) => void
+  updateDefaultSettings: (updates: Partial<ChatSettings>) => void
+  setSystemPrompt: (threadId: string, systemPrompt: string, variables?: Record<string, string>) => void
   
   // Message Actions
   setMessageInput: (input: string) => void
   clearMessageInput: () => void
-  addMessage: (message: Message) => void
-  updateMessage: (messageId: string, updates: Partial<Message>) => void
+  // Both default to the selected thread; streams pass the thread they started in
+  addMessage: (message: Message, threadId?: string) => void
+  updateMessage: (messageId: string, updates: Partial<Message>, threadId?: string) => void
+  
+  // Branch Actions
+  regenerateMessage: (messageId: string) => Promise<void>
+  retryMessage: (messageId: string) => Promise<void>
+  editMessage: (messageId: string, newContent: string) => Promise<void>
+  selectSibling: (messageId: string, offset: number) => void
+  getSiblingPosition: (messageId: string) => { index: number, total: number }
   
   // Attachment Actions
   addAttachment: (attachment: Attachment) => void
   removeAttachment: (attachmentId: string) => void
   clearAttachments: () => void
   
+  // Tool Actions
+  registerTool: (tool: ClientTool) => void
+  unregisterTool: (name: string) => void
+  
+  // Preset Actions
+  addPreset: (preset: Omit<PromptPreset, 'id'>) => string
+  updatePreset: (presetId: string, updates: Partial<Omit<PromptPreset, 'id'>>) => void
+  deletePreset: (presetId: string) => void
+  
+  // Usage Actions
+  setSpendCap: (cap: number | null) => void
+  
   // Submit Message
   submitMessage: () => Promise<void>
+  generateReply: (threadId: string, options?: { onAccepted?: () => void }) => Promise<void>
+  stopGeneration: (threadId: string) => void
+  // Input tokens the next request would use, including the draft message
+  countContextTokens: () => Promise<{ inputTokens: number, contextWindow: number }>
   
   // Derived State Selectors
-  getStreamingMessage: () => Message | null
-  getActiveToolCalls: () => ContentBlock[]
-  isStreaming: () => boolean
-  hasThinkingBlock: () => boolean
+  // Default to the selected thread
+  getStreamingMessage: (threadId?: string) => Message | null
+  getActiveToolCalls: (threadId?: string) => ContentBlock[]
+  isStreaming: (threadId?: string) => boolean
+  hasThinkingBlock: (threadId?: string) => boolean
+  getThreadUsage: (threadId: string) => UsageTotal
+  getDailyUsage: (day?: string) => UsageTotal
+}
+
+// Slice of the store that is written to IndexedDB
+type PersistedChatState = Pick<ChatStore, 'threads' | 'selectedThreadId' | 'artifacts' | 'defaultSettings' | 'presets' | 'dailyUsage' | 'spendCap'>
+
+// Bump when the persisted shape changes and add a migration from the previous version
+const PERSIST_VERSION = 8
+
+// Persisted state migrations, keyed by the version they upgrade from
+const migrations: Record<number, (state: PersistedChatState) => PersistedChatState> = {
+  // v1 had no generation settings
+  1: (state) => ({
+    ...state,
+    defaultSettings: DEFAULT_SETTINGS,
+    threads: state.threads.map(thread => ({ ...thread, settings: DEFAULT_SETTINGS }))
+  }),
+  // v2 had no system prompts or presets
+  2: (state) => ({
+    ...state,
+    presets: DEFAULT_PRESETS,
+    threads: state.threads.map(thread => ({ ...thread, systemPrompt: '', promptVariables: {} }))
+  }),
+  // v3 stored a flat message list per thread
+  3: (state) => ({
+    ...state,
+    threads: state.threads.map(thread => ({
+      ...thread,
+      messages: toLinearTree(thread.messages),
+      activeLeafId: thread.messages[thread.messages.length - 1]?.id ?? null
+    }))
+  }),
+  // v4 did not track where titles came from
+  4: (state) => ({
+    ...state,
+    threads: state.threads.map(thread => ({ ...thread, titleSource: defaultTitleSource(thread.title) }))
+  }),
+  // v5 did not track usage
+  5: (state) => ({ ...state, dailyUsage: {}, spendCap: null }),
+  // v6 had no context strategy
+  6: (state) => ({
+    ...state,
+    defaultSettings: { ...state.defaultSettings, contextStrategy: DEFAULT_SETTINGS.contextStrategy },
+    threads: state.threads.map(thread => ({
+      ...thread,
+      settings: { ...thread.settings, contextStrategy: DEFAULT_SETTINGS.contextStrategy }
+    }))
+  }),
+  // v7 had no web search options
+  7: (state) => ({
+    ...state,
+    defaultSettings: { ...state.defaultSettings, webSearch: DEFAULT_SETTINGS.webSearch },
+    threads: state.threads.map(thread => ({
+      ...thread,
+      settings: { ...thread.settings, webSearch: DEFAULT_SETTINGS.webSearch }
+    }))
+  })
+}
+
+const DEFAULT_THREAD_TITLE = 'New Chat'
+
+// When a title's origin is unknown (older saves, other devices), treat it as hand-named unless it is the default
+function defaultTitleSource(title: string): Thread['titleSource'] {
+  return title === DEFAULT_THREAD_TITLE ? 'default' : 'user'
+}
+
+const DATE_KEYS = new Set(['createdAt', 'updatedAt'])
+
+// JSON turns Dates into ISO strings; turn them back on load
+function reviveDates(key: string, value: unknown) {
+  return DATE_KEYS.has(key) && typeof value === 'string' ? new Date(value) : value
+}
+
+// An assistant message without stop_reason was cut off by a reload, not still streaming. It
+// keeps what can be sent back as history, as a stopped reply does; with nothing left it is
+// removed and its branch goes back to the message it answered.
+function dropInterrupted(thread: Thread): Thread {
+  let { activeLeafId } = thread
+  const messages = thread.messages.flatMap(message => {
+    if (message.role !== 'assistant' || message.stop_reason) return [message]
+    const content = keepFinishedContent(message.content)
+    if (content.length > 0) return [{ ...message, content, stop_reason: 'interrupted' }]
+    if (activeLeafId === message.id) activeLeafId = message.parentId
+    return []
+  })
+  return { ...thread, messages, activeLeafId }
+}
+
+// Point a thread's active branch at `leafId` and refresh the visible messages
+function withActiveLeaf(state: ChatStore, threadId: string, leafId: string | null): Partial<ChatStore> {
+  const threads = state.threads.map(t => t.id === threadId ? { ...t, activeLeafId: leafId } : t)
+  const thread = threads.find(t => t.id === threadId)
+  return {
+    threads,
+    messages: state.selectedThreadId === threadId && thread
+      ? getActivePath(thread.messages, leafId)
+      : state.messages
+  }
 }
 
-export const useChatStore = create<ChatStore>((set, get) => ({
+// Wait, rejecting with an AbortError if the request is cancelled first
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(new DOMException('Aborted', 'AbortError'))
+    const timeout = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeout)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }, { once: true })
+  })
+}
+
+// File references need the Files API beta
+function usesFileReferences(messages: { content: { type: string, source?: { type?: string } }[] }[]) {
+  return messages.some(msg => msg.content.some(block => block.source?.type === 'file'))
+}
+
+// Add a finished response to today's usage total
+function withDailyUsage(dailyUsage: Record<string, UsageTotal>, model: string, usage: Usage): Record<string, UsageTotal> {
+  const day = toDayKey(new Date())
+  const current = dailyUsage[day] ?? { usage: EMPTY_USAGE, cost: 0 }
+  const tokens = toTokenUsage(usage)
+  return {
+    ...dailyUsage,
+    [day]: {
+      usage: addUsage(current.usage, tokens),
+      cost: current.cost + calculateCost(model, tokens)
+    }
+  }
+}
+
+// Throw when today's spend has reached the configured cap
+function assertWithinSpendCap(state: ChatStore) {
+  if (state.spendCap !== null && state.getDailyUsage().cost >= state.spendCap) {
+    throw new Error(`Daily spend cap of ${formatCost(state.spendCap)} reached`)
+  }
+}
+
+// Server sync requests run one at a time so a thread is always created before its messages
+let syncQueue: Promise<void> = Promise.resolve()
+
+// Mirror a change to the server-side thread store; local state stays authoritative on failure
+function syncToServer(path: string, init: RequestInit) {
+  syncQueue = syncQueue.then(async () => {
+    try {
+      const response = await fetch(path, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' }
+      })
+      if (!response.ok) {
+        console.error('Thread sync failed:', init.method, path, response.status)
+      }
+    } catch (error) {
+      console.error('Thread sync failed:', init.method, path, error)
+    }
+  })
+}
+
+export const useChatStore = create<ChatStore>()(persist((set, get) => ({
   // Initial UI State
   sidebarOpen: true,
   activeModal: null,
@@ -97,6 +318,11 @@ export const useChatStore = create<ChatStore>((set, get) => ({
   attachments: [],
   artifacts: [],
   selectedArtifactId: null,
+  tools: {},
+  defaultSettings: DEFAULT_SETTINGS,
+  presets: DEFAULT_PRESETS,
+  dailyUsage: {},
+  spendCap: null,
   
   // UI Actions
   toggleSidebar: () => set((state) => ({ sidebarOpen: !state.sidebarOpen })),
@@ -104,20 +330,30 @@ export const useChatStore = create<ChatStore>((set, get) => ({
   setSelectedView: (view) => set({ selectedView: view }),
   
   // Thread Actions
-  createThread: (title) => {
+  createThread: (title, options) => {
     const id = `thread_${Date.now()}`
+    const preset = options?.presetId ? get().presets.find(p => p.id === options.presetId) : undefined
     const newThread: Thread = {
       id,
-      title: title || 'New Chat',
+      title: title || DEFAULT_THREAD_TITLE,
+      titleSource: title ? 'user' : 'default',
       createdAt: new Date(),
       updatedAt: new Date(),
-      messages: []
+      messages: [],
+      activeLeafId: null,
+      settings: get().defaultSettings,
+      systemPrompt: preset?.template ?? '',
+      promptVariables: options?.variables ?? {}
     }
     set((state) => ({
       threads: [...state.threads, newThread],
       selectedThreadId: id,
       messages: []
     }))
+    syncToServer('/api/threads', {
+      method: 'POST',
+      body: JSON.stringify({ id, title: newThread.title })
+    })
     return id
   },
   
@@ -125,7 +361,7 @@ export const useChatStore = create<ChatStore>((set, get) => ({
     const thread = threadId ? get().threads.find(t => t.id === threadId) : null
     set({
       selectedThreadId: threadId,
-      messages: thread?.messages || []
+      messages: thread ? getActivePath(thread.messages, thread.activeLeafId) : []
     })
   },
   
@@ -139,22 +375,190 @@ export const useChatStore = create<ChatStore>((set, get) => ({
       selectedThreadId: state.selectedThreadId === threadId ? null : state.selectedThreadId,
       messages: state.selectedThreadId === threadId ? [] : state.messages
     }))
+    syncToServer(`/api/threads/${threadId}`, { method: 'DELETE' })
+  },
+
+  renameThread: (threadId, title) => {
+    const trimmed = title.trim()
+    if (!trimmed) return
+
+    set((state) => ({
+      threads: state.threads.map(t =>
+        t.id === threadId ? { ...t, title: trimmed, titleSource: 'user', updatedAt: new Date() } : t
+      )
+    }))
+    syncToServer(`/api/threads/${threadId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ title: trimmed })
+    })
+  },
+
+  // Name a thread from its conversation, unless it already has a real title
+  generateTitle: async (threadId) => {
+    const thread = get().threads.find(t => t.id === threadId)
+    if (!thread || thread.titleSource !== 'default') return
+
+    const messages = getActivePath(thread.messages, thread.activeLeafId)
+      .map(msg => ({ role: msg.role, content: msg.content }))
+
+    try {
+      const response = await fetch('/api/title', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messages })
+      })
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({}))
+        throw new Error(error || response.statusText)
+      }
+      const { title }: { title: string } = await response.json()
+
+      // The user may have renamed the thread while the title was being generated
+      if (get().threads.find(t => t.id === threadId)?.titleSource !== 'default') return
+      set((state) => ({
+        threads: state.threads.map(t =>
+          t.id === threadId ? { ...t, title, titleSource: 'generated' } : t
+        )
+      }))
+      syncToServer(`/api/threads/${threadId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ title })
+      })
+    } catch (error) {
+      // The default title is fine to keep; the next reply will try again
+      console.error('Title generation failed:', error)
+    }
+  },
+  
+  loadThreads: async () => {
+    const response = await fetch('/api/threads')
+    if (!response.ok) {
+      throw new Error(`Failed to load threads: ${response.statusText}`)
+    }
+    const { threads: summaries }: { threads: { id: string, updatedAt: string }[] } = await response.json()
+    
+    // Fetch threads that are missing locally or changed elsewhere, skipping ones streaming here
+    const localThreads = get().threads
+    const changed = summaries.filter(summary => {
+      const local = localThreads.find(t => t.id === summary.id)
+      return !local || (!local.abortController && new Date(summary.updatedAt) > local.updatedAt)
+    })
+    const remoteThreads: Thread[] = await Promise.all(changed.map(async (summary) => {
+      const threadResponse = await fetch(`/api/threads/${summary.id}`)
+      if (!threadResponse.ok) {
+        throw new Error(`Failed to load thread: ${threadResponse.statusText}`)
+      }
+      const { thread } = await threadResponse.json()
+      // Messages recorded without a parent are treated as one linear branch
+      const messages: TreeMessage<Message>[] = thread.messages.every((m: Message) => 'parentId' in m)
+        ? thread.messages
+        : toLinearTree(thread.messages)
+      // Settings, system prompts and the active branch are local; keep ours or fall back to the defaults
+      const local = localThreads.find(t => t.id === thread.id)
+      const keepLeaf = local?.activeLeafId && messages.some(m => m.id === local.activeLeafId)
+      return {
+        ...thread,
+        messages,
+        activeLeafId: keepLeaf ? local.activeLeafId : messages[messages.length - 1]?.id ?? null,
+        titleSource: local && local.title === thread.title ? local.titleSource : defaultTitleSource(thread.title),
+        createdAt: new Date(thread.createdAt),
+        updatedAt: new Date(thread.updatedAt),
+        settings: local?.settings ?? get().defaultSettings,
+        systemPrompt: local?.systemPrompt ?? '',
+        promptVariables: local?.promptVariables ?? {}
+      }
+    }))
+    
+    set((state) => {
+      const threads = [...state.threads]
+      for (const remote of remoteThreads) {
+        const index = threads.findIndex(t => t.id === remote.id)
+        if (index >= 0) {
+          threads[index] = remote
+        } else {
+          threads.push(remote)
+        }
+      }
+      const selectedThread = threads.find(t => t.id === state.selectedThreadId)
+      return {
+        threads,
+        messages: selectedThread
+          ? getActivePath(selectedThread.messages, selectedThread.activeLeafId)
+          : state.messages
+      }
+    })
+  },
+  
+  clearLocalData: () => {
+    get().threads.forEach(thread => thread.abortController?.abort())
+    set({
+      threads: [],
+      selectedThreadId: null,
+      messages: [],
+      messageInput: '',
+      attachments: [],
+      artifacts: [],
+      selectedArtifactId: null,
+      defaultSettings: DEFAULT_SETTINGS,
+      presets: DEFAULT_PRESETS,
+      dailyUsage: {},
+      spendCap: null
+    })
+  },
+  
+  updateThreadSettings: (threadId, updates) => {
+    set((state) => ({
+      threads: state.threads.map(t =>
+        t.id === threadId ? { ...t, settings: { ...t.settings, ...updates } } : t
+      )
+    }))
+  },
+  
+  updateDefaultSettings: (updates) => {
+    set((state) => ({
+      defaultSettings: { ...state.defaultSettings, ...updates }
+    }))
+  },
+  
+  setSystemPrompt: (threadId, systemPrompt, variables) => {
+    set((state) => ({
+      threads: state.threads.map(t =>
+        t.id === threadId
+          ? { ...t, systemPrompt, promptVariables: variables ?? t.promptVariables }
+          : t
+      )
+    }))
   },
   
   // Message Actions
   setMessageInput: (input) => set({ messageInput: input }),
   clearMessageInput: () => set({ messageInput: '' }),
   
-  addMessage: (message) => {
+  addMessage: (message, threadId) => {
+    // New messages continue the active branch of their thread
+    const targetId = threadId ?? get().selectedThreadId
+    const parentId = get().threads.find(t => t.id === targetId)?.activeLeafId ?? null
+    const treeMessage: TreeMessage<Message> = { ...message, parentId }
+    
+    // Assistant messages are recorded by /api/chat once they finish streaming
+    if (targetId && message.role === 'user') {
+      syncToServer(`/api/threads/${targetId}/messages`, {
+        method: 'POST',
+        body: JSON.stringify({ message: treeMessage })
+      })
+    }
+    
     set((state) => {
-      const newMessages = [...state.messages, message]
+      // The visible messages only change if the thread is the one on screen
+      const newMessages = state.selectedThreadId === targetId ? [...state.messages, treeMessage] : state.messages
       
       // Update thread's messages
       const updatedThreads = state.threads.map(thread => {
-        if (thread.id === state.selectedThreadId) {
+        if (thread.id === targetId) {
           return { 
             ...thread, 
-            messages: newMessages,
+            messages: [...thread.messages, treeMessage],
+            activeLeafId: treeMessage.id,
             updatedAt: new Date()
           }
         }
@@ -168,18 +572,26 @@ export const useChatStore = create<ChatStore>((set, get) => ({
     })
   },
   
-  updateMessage: (messageId, updates) => {
+  updateMessage: (messageId, updates, threadId) => {
+    const targetId = threadId ?? get().selectedThreadId
+    // A changed ID (e.g. the server's ID from message_start) must be followed by children and the active leaf
+    const newId = updates.id && updates.id !== messageId ? updates.id : null
+    const applyUpdate = <M extends Message>(msg: M): M => {
+      if (msg.id === messageId) return { ...msg, ...updates }
+      if (newId && msg.parentId === messageId) return { ...msg, parentId: newId }
+      return msg
+    }
+    
     set((state) => {
-      const newMessages = state.messages.map(msg => 
-        msg.id === messageId ? { ...msg, ...updates } : msg
-      )
+      const newMessages = state.selectedThreadId === targetId ? state.messages.map(applyUpdate) : state.messages
       
       // Update thread's messages
       const updatedThreads = state.threads.map(thread => {
-        if (thread.id === state.selectedThreadId) {
+        if (thread.id === targetId) {
           return { 
             ...thread, 
-            messages: newMessages,
+            messages: thread.messages.map(applyUpdate),
+            activeLeafId: newId && thread.activeLeafId === messageId ? newId : thread.activeLeafId,
             updatedAt: new Date()
           }
         }
@@ -193,18 +605,124 @@ export const useChatStore = create<ChatStore>((set, get) => ({
     })
   },
   
+  // Branch Actions
+  regenerateMessage: async (messageId) => {
+    const { selectedThreadId, threads } = get()
+    const thread = threads.find(t => t.id === selectedThreadId)
+    const message = thread?.messages.find(m => m.id === messageId)
+    if (!thread || !message || message.role !== 'assistant') return
+    assertWithinSpendCap(get())
+    
+    // The new reply becomes a sibling of the old one
+    set((state) => withActiveLeaf(state, thread.id, message.parentId))
+    await get().generateReply(thread.id)
+  },
+  
+  retryMessage: async (messageId) => {
+    const { selectedThreadId, threads } = get()
+    const thread = threads.find(t => t.id === selectedThreadId)
+    const message = thread?.messages.find(m => m.id === messageId)
+    if (!thread || !message || message.stop_reason !== 'error') return
+    assertWithinSpendCap(get())
+    
+    // The failed attempt is discarded and the reply generated again from the same history
+    set((state) => withActiveLeaf({
+      ...state,
+      threads: state.threads.map(t =>
+        t.id === thread.id ? { ...t, messages: t.messages.filter(m => m.id !== messageId) } : t
+      )
+    }, thread.id, message.parentId))
+    await get().generateReply(thread.id)
+  },
+  
+  editMessage: async (messageId, newContent) => {
+    const { selectedThreadId, threads } = get()
+    const thread = threads.find(t => t.id === selectedThreadId)
+    const message = thread?.messages.find(m => m.id === messageId)
+    if (!thread || !message || message.role !== 'user') return
+    // Tool results are answers to the model, not something the user wrote
+    if (message.content.some((block: { type: string }) => block.type === 'tool_result')) return
+    assertWithinSpendCap(get())
+    
+    // Start a sibling branch, keeping attachments and replacing the text
+    set((state) => withActiveLeaf(state, thread.id, message.parentId))
+    get().addMessage({
+      ...message,
+      id: `msg_user_${Date.now()}`,
+      content: [
+        ...message.content.filter((block: { type: string }) => block.type !== 'text'),
+        { type: 'text', text: newContent }
+      ]
+    }, thread.id)
+    await get().generateReply(thread.id)
+  },
+  
+  selectSibling: (messageId, offset) => {
+    const { selectedThreadId, threads } = get()
+    const thread = threads.find(t => t.id === selectedThreadId)
+    if (!thread) return
+    
+    const siblings = getSiblings(thread.messages, messageId)
+    const target = siblings[siblings.findIndex(m => m.id === messageId) + offset]
+    if (!target) return
+    
+    set((state) => withActiveLeaf(state, thread.id, findLatestLeaf(thread.messages, target.id)))
+  },
+  
+  getSiblingPosition: (messageId) => {
+    const { selectedThreadId, threads } = get()
+    const thread = threads.find(t => t.id === selectedThreadId)
+    const siblings = thread ? getSiblings(thread.messages, messageId) : []
+    return {
+      index: siblings.findIndex(m => m.id === messageId),
+      total: siblings.length
+    }
+  },
+  
   // Attachment Actions
-  addAttachment: (attachment) => set((state) => ({ 
-    attachments: [...state.attachments, attachment] 
-  })),
+  addAttachment: (attachment) => {
+    const error = validateAttachment(attachment)
+    if (error) throw new Error(error)
+    set((state) => ({ 
+      attachments: [...state.attachments, attachment] 
+    }))
+  },
   removeAttachment: (attachmentId) => set((state) => ({
     attachments: state.attachments.filter(a => a.id !== attachmentId)
   })),
   clearAttachments: () => set({ attachments: [] }),
   
+  // Tool Actions
+  registerTool: (tool) => set((state) => ({
+    tools: { ...state.tools, [tool.name]: tool }
+  })),
+  unregisterTool: (name) => set((state) => {
+    const tools = { ...state.tools }
+    delete tools[name]
+    return { tools }
+  }),
+  
+  // Preset Actions
+  addPreset: (preset) => {
+    const id = `preset_${Date.now()}`
+    set((state) => ({ presets: [...state.presets, { ...preset, id }] }))
+    return id
+  },
+  updatePreset: (presetId, updates) => set((state) => ({
+    presets: state.presets.map(p => p.id === presetId ? { ...p, ...updates } : p)
+  })),
+  deletePreset: (presetId) => set((state) => ({
+    presets: state.presets.filter(p => p.id !== presetId)
+  })),
+  
+  // Usage Actions
+  setSpendCap: (cap) => set({ spendCap: cap }),
+  
   // Derived State Selectors
-  getStreamingMessage: () => {
-    const messages = get().messages
+  getStreamingMessage: (threadId) => {
+    const thread = get().threads.find(t => t.id === (threadId ?? get().selectedThreadId))
+    if (!thread) return null
+    const messages = getActivePath(thread.messages, thread.activeLeafId)
     const lastMessage = messages[messages.length - 1]
     // A message is streaming if it's from assistant and has no stop_reason
     return lastMessage?.role === 'assistant' && !lastMessage.stop_reason 
@@ -212,8 +730,8 @@ export const useChatStore = create<ChatStore>((set, get) => ({
       : null
   },
   
-  getActiveToolCalls: () => {
-    const streamingMsg = get().getStreamingMessage()
+  getActiveToolCalls: (threadId) => {
+    const streamingMsg = get().getStreamingMessage(threadId)
     if (!streamingMsg) return []
     
     return streamingMsg.content.filter(block => 
@@ -221,24 +739,52 @@ export const useChatStore = create<ChatStore>((set, get) => ({
     )
   },
   
-  isStreaming: () => {
-    return get().getStreamingMessage() !== null
+  // A request is in flight, including client tool runs between streamed rounds
+  isStreaming: (threadId) => {
+    const thread = get().threads.find(t => t.id === (threadId ?? get().selectedThreadId))
+    return Boolean(thread?.abortController)
   },
   
-  hasThinkingBlock: () => {
-    const streamingMsg = get().getStreamingMessage()
+  hasThinkingBlock: (threadId) => {
+    const streamingMsg = get().getStreamingMessage(threadId)
     if (!streamingMsg) return false
     
     return streamingMsg.content.some(block => 
-      block.type === 'thinking' && block.thinking !== undefined
+      (block.type === 'thinking' && block.thinking !== undefined) || block.type === 'redacted_thinking'
     )
   },
   
+  // Every branch counts, since abandoned replies were still billed
+  getThreadUsage: (threadId) => {
+    const thread = get().threads.find(t => t.id === threadId)
+    return sumUsage(thread?.messages ?? [])
+  },
+  
+  getDailyUsage: (day) => {
+    return get().dailyUsage[day ?? toDayKey(new Date())] ?? { usage: EMPTY_USAGE, cost: 0 }
+  },
+  
   // Submit Message
   submitMessage: async () => {
-    const { messageInput, selectedThreadId, messages } = get()
+    const { messageInput, selectedThreadId, attachments } = get()
     
-    if (!messageInput.trim()) return
+    if (!messageInput.trim() && attachments.length === 0) return
+    assertWithinSpendCap(get())
+    
+    // Large attachments are uploaded once and referenced by file_id from then on
+    const preparedAttachments = await Promise.all(attachments.map(async (attachment) => {
+      if (!shouldUpload(attachment)) return attachment
+      try {
+        return await uploadAttachment(attachment)
+      } catch (error) {
+        console.error('Upload failed, sending inline:', error)
+        return attachment
+      }
+    }))
+    
+    if (encodedSize(preparedAttachments) > MAX_REQUEST_BYTES) {
+      throw new Error('Attachments exceed the 32 MB request limit')
+    }
     
     // Create thread if none selected
     let threadId = selectedThreadId
@@ -246,224 +792,339 @@ export const useChatStore = create<ChatStore>((set, get) => ({
       threadId = get().createThread()
     }
     
-    // Cancel any existing request for this thread
-    const thread = get().threads.find(t => t.id === threadId)
-    thread?.abortController?.abort()
-    
-    // Create new abort controller
-    const abortController = new AbortController()
-    set((state) => ({
-      threads: state.threads.map(t => 
-        t.id === threadId ? { ...t, abortController } : t
-      )
-    }))
+    const settings = get().threads.find(t => t.id === threadId)?.settings ?? get().defaultSettings
     
     // Create user message
     const userMessage: Message = {
       id: `msg_user_${Date.now()}`,
       type: 'message',
       role: 'user',
-      content: [{ type: 'text', text: messageInput }],
-      model: 'claude-opus-4-20250514',
+      content: [
+        // Attachments go before the text, as the API recommends
+        ...preparedAttachments.map(toContentBlock),
+        ...(messageInput.trim() ? [{ type: 'text', text: messageInput }] : [])
+      ],
+      model: settings.model,
       stop_reason: null,
       stop_sequence: null,
       usage: { input_tokens: 0, output_tokens: 0 }
     }
     
     // Add user message and clear input
-    get().addMessage(userMessage)
+    get().addMessage(userMessage, threadId)
     set({ messageInput: '' })
     
-    // Create assistant message that we'll update as we stream
-    const assistantMessage: Message = {
-      id: `msg_asst_${Date.now()}`,
-      type: 'message', 
-      role: 'assistant',
-      content: [],
-      model: 'claude-opus-4-20250514',
-      stop_reason: null,
-      stop_sequence: null,
-      usage: { input_tokens: 0, output_tokens: 0 }
+    // The attachments leave the input area once the API accepts the request
+    await get().generateReply(threadId, { onAccepted: () => get().clearAttachments() })
+  },
+  
+  countContextTokens: async () => {
+    const { selectedThreadId, threads, messages, messageInput, defaultSettings, tools } = get()
+    const thread = threads.find(t => t.id === selectedThreadId)
+    const generationParams = toGenerationParams(thread?.settings ?? defaultSettings)
+    const contextWindow = getContextWindow(generationParams.model)
+    
+    const apiMessages = [
+      ...messages.map(msg => ({ role: msg.role, content: msg.content })),
+      ...(messageInput.trim() ? [{ role: 'user', content: [{ type: 'text', text: messageInput }] }] : [])
+    ]
+    if (apiMessages.length === 0) return { inputTokens: 0, contextWindow }
+    
+    const response = await fetch('/api/count_tokens', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messages: apiMessages,
+        model: generationParams.model,
+        max_tokens: generationParams.max_tokens,
+        system: thread?.systemPrompt ? fillTemplate(thread.systemPrompt, thread.promptVariables) : undefined,
+        thinking: generationParams.thinking,
+        betaFeatures: [...generationParams.betaFeatures, ...(usesFileReferences(apiMessages) ? ['files'] : [])],
+        tools: [...generationParams.tools, ...Object.values(tools).map(toToolDefinition)]
+      })
+    })
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({}))
+      throw new Error(`Token count failed: ${error || response.statusText}`)
     }
-    get().addMessage(assistantMessage)
+    const { input_tokens }: { input_tokens: number } = await response.json()
+    return { inputTokens: input_tokens, contextWindow }
+  },
+  
+  // Stream the assistant's reply to the active branch, answering client tool calls along the way
+  generateReply: async (threadId, options) => {
+    // Cancel any existing request for this thread
+    const thread = get().threads.find(t => t.id === threadId)
+    thread?.abortController?.abort()
+    
+    const settings = thread?.settings ?? get().defaultSettings
+    const generationParams = toGenerationParams(settings)
+    // Placeholders are filled at send time so built-ins like {{date}} stay current
+    const system = thread?.systemPrompt
+      ? fillTemplate(thread.systemPrompt, thread.promptVariables)
+      : undefined
+    
+    // Create new abort controller
+    const abortController = new AbortController()
+    set((state) => ({
+      threads: state.threads.map(t => 
+        t.id === threadId ? { ...t, abortController } : t
+      )
+    }))
+    
+    // The assistant message currently being streamed
+    let assistantMessage: Message | null = null
     
     try {
-      // Prepare messages for API (only content)
-      const apiMessages = [...messages, userMessage].map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }))
-      
-      console.log('Sending request to API...')
-      
-      // Call API
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: apiMessages,
-          model: 'claude-opus-4-20250514',
-          max_tokens: 4096,
-          betaFeatures: ['web-search', 'code-execution', 'thinking'],
-          tools: [
-            { 
-              type: 'web_search_20250305',
-              name: 'web_search'
-            },
-            { 
-              type: 'code_execution_20250522',
-              name: 'code_execution'
-            }
-          ]
-        }),
-        signal: abortController.signal
-      })
-      
-      console.log('Response received:', response.ok, response.status)
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.statusText}`)
-      }
-      
-      // Import parser dynamically to avoid circular dependencies
-      const { parseSSEStream } = await import('@/lib/stream-parser')
-      console.log('Parser imported, starting stream processing...')
-      
-      // Process stream
-      const contentBlocks: ContentBlock[] = []
-      
-      for await (const event of parseSSEStream(response)) {
-        console.log('Stream event:', event.type, event)
+      // Each round streams one assistant message; client tool calls trigger another round
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        // Prepare messages for API (only content), following the thread's active branch
+        const currentThread = get().threads.find(t => t.id === threadId)
+        const history = currentThread ? getActivePath(currentThread.messages, currentThread.activeLeafId) : []
+        const apiMessages = history.map(msg => ({
+          role: msg.role,
+          content: msg.content
+        }))
+        const parentMessageId = history[history.length - 1]?.id ?? null
+        
+        // Create assistant message that we'll update as we stream
+        assistantMessage = {
+          id: `msg_asst_${Date.now()}`,
+          type: 'message', 
+          role: 'assistant',
+          content: [],
+          model: settings.model,
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0 }
+        }
+        get().addMessage(assistantMessage, threadId)
+        
+        const usesFiles = usesFileReferences(apiMessages)
+        
+        console.log('Sending request to API...')
         
-        if (event.type === 'message_start') {
-          // Update message ID if provided
-          if (event.message.id) {
-            const oldId = assistantMessage.id
-            const newId = event.message.id
-            console.log('Updating message ID from', oldId, 'to', newId)
+        // The streamed reply, reset when a failed attempt is retried
+        let reply: Message = assistantMessage
+        
+        // Rate limits and overloads are retried while nothing has streamed yet
+        for (let attempt = 0; ; attempt++) {
+          try {
+            // Call API
+            const response = await fetch('/api/chat', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                messages: apiMessages,
+                threadId,
+                parentMessageId,
+                system,
+                ...generationParams,
+                betaFeatures: [...generationParams.betaFeatures, ...(usesFiles ? ['files'] : [])],
+                tools: [
+                  ...generationParams.tools,
+                  ...Object.values(get().tools).map(toToolDefinition)
+                ]
+              }),
+              signal: abortController.signal
+            })
             
-            // Update the message with the new ID
-            set((state) => ({
-              messages: state.messages.map(msg => 
-                msg.id === oldId ? { ...msg, id: newId } : msg
-              ),
-              threads: state.threads.map(thread => 
-                thread.id === state.selectedThreadId 
-                  ? { 
-                      ...thread, 
-                      messages: thread.messages.map(msg => 
-                        msg.id === oldId ? { ...msg, id: newId } : msg
-                      )
-                    }
-                  : thread
-              )
-            }))
+            console.log('Response received:', response.ok, response.status)
             
-            // Update our local reference
-            assistantMessage.id = newId
-          }
-        } else if (event.type === 'content_block_start') {
-          const blockIndex = event.index || contentBlocks.length
-          console.log('Content block start:', event.content_block.type, 'at index', blockIndex)
-          
-          // Initialize the block in the array
-          if (event.content_block.type === 'tool_use' || event.content_block.type === 'server_tool_use') {
-            contentBlocks[blockIndex] = event.content_block
-          } else if (event.content_block.type === 'web_search_tool_result') {
-            console.log('Web search results received:', event.content_block)
-            contentBlocks[blockIndex] = event.content_block
-          } else if (event.content_block.type === 'thinking') {
-            contentBlocks[blockIndex] = { ...event.content_block, thinking: '' }
-          } else if (event.content_block.type === 'text') {
-            contentBlocks[blockIndex] = { ...event.content_block, text: '', citations: event.content_block.citations || [] }
-          }
-          
-          // Update message with current blocks
-          get().updateMessage(assistantMessage.id, { 
-            content: contentBlocks.filter(b => b !== undefined) 
-          })
-        } else if (event.type === 'content_block_delta') {
-          const deltaIndex = event.index || 0
-          
-          if (event.delta.type === 'text_delta') {
-            // Get the block at deltaIndex
-            const block = contentBlocks[deltaIndex]
-            if (block && block.type === 'text') {
-              block.text += event.delta.text
-              contentBlocks[deltaIndex] = block
-              console.log(`Text accumulated at index ${deltaIndex}:`, block.text)
-            } else {
-              console.log(`No text block at index ${deltaIndex}, blocks:`, contentBlocks)
+            if (!response.ok) {
+              throw new ChatRequestError(await fromErrorResponse(response))
             }
-          } else if (event.delta.type === 'citations_delta') {
-            console.log('Citation delta:', event.delta.citation)
-            const block = contentBlocks[deltaIndex]
-            if (block && block.type === 'text' && event.delta.citation) {
-              if (!block.citations) {
-                block.citations = []
-              }
-              block.citations.push(event.delta.citation)
-              contentBlocks[deltaIndex] = block
+            
+            if (round === 0) {
+              options?.onAccepted?.()
+            }
+            
+            // Import parser dynamically to avoid circular dependencies
+            const { parseSSEStream } = await import('@/lib/stream-parser')
+            console.log('Parser imported, starting stream processing...')
+            
+            // Process stream
+            reply = assistantMessage
+            
+            // Dropped connections resume from the server's buffer of this stream
+            const streamId = response.headers.get('X-Stream-Id')
+            const reconnect = streamId
+              ? {
+                  reconnect: (lastEventId: string | null) => fetch(`/api/chat/${streamId}`, {
+                    headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+                    signal: abortController.signal
+                  })
+                }
+              : undefined
+            // Stopping locally also stops the generation on the server
+            const cancelUpstream = () => {
+              fetch(`/api/chat/${streamId}`, { method: 'DELETE' }).catch(() => {})
             }
-          } else if (event.delta.type === 'thinking_delta') {
-            // Get the block at deltaIndex
-            const block = contentBlocks[deltaIndex]
-            if (block && block.type === 'thinking') {
-              block.thinking += event.delta.thinking
-              contentBlocks[deltaIndex] = block
+            if (streamId) abortController.signal.addEventListener('abort', cancelUpstream, { once: true })
+            
+            try {
+              for await (const event of parseSSEStream(response, reconnect)) {
+                console.log('Stream event:', event.type, event)
+              
+                if (event.type === 'error') {
+                  // Upstream failure reported mid-stream
+                  throw new ChatRequestError(event.error)
+                }
+
+                const previousId = reply.id
+                const next = applyStreamEvent(reply, event)
+                if (next === reply) continue
+                reply = next
+                // message_start carries the server's message ID
+                if (reply.id !== previousId) assistantMessage.id = reply.id
+                get().updateMessage(previousId, {
+                  id: reply.id,
+                  content: reply.content.filter((block: ContentBlock) => block !== undefined),
+                  stop_reason: reply.stop_reason,
+                  usage: reply.usage
+                }, threadId)
+              }
+            } finally {
+              // A retried attempt's stream is over; a later stop must not cancel it again
+              abortController.signal.removeEventListener('abort', cancelUpstream)
             }
-          } else if (event.delta.type === 'input_json_delta') {
-            console.log('Tool input delta:', event.delta)
-          } else {
-            console.log('Unknown delta type:', event.delta)
-          }
-          
-          // Update message with current blocks
-          get().updateMessage(assistantMessage.id, { 
-            content: contentBlocks.filter(b => b !== undefined) 
-          })
-        } else if (event.type === 'message_delta') {
-          // Handle message delta for stop_reason and usage
-          if (event.delta?.stop_reason) {
-            console.log('Setting stop_reason:', event.delta.stop_reason)
-            get().updateMessage(assistantMessage.id, {
-              stop_reason: event.delta.stop_reason,
-              usage: event.usage || { input_tokens: 0, output_tokens: 0 }
-            })
+            break
+          } catch (error) {
+            if (!(error instanceof ChatRequestError) || !isRetryable(error.detail) ||
+              reply.content.length > 0 || attempt >= MAX_RETRIES) throw error
+            const delay = retryDelay(attempt, error.detail)
+            console.warn(`Retrying after ${error.detail.type} in ${Math.round(delay)}ms`)
+            get().updateMessage(assistantMessage.id, { content: [], usage: { input_tokens: 0, output_tokens: 0 } }, threadId)
+            await sleep(delay, abortController.signal)
           }
-        } else if (event.type === 'message_stop') {
-          // Clean up and finalize
-          const cleanedContentBlocks = contentBlocks.filter(block => block !== undefined)
-          
-          console.log('Final content blocks:', JSON.stringify(cleanedContentBlocks, null, 2))
-          
-          // The content is already updated, and stop_reason/usage come from message_delta
-          // Just log that we're done
-          console.log('Message completed')
         }
+
+        // Each finished response counts toward today's spend
+        const model = assistantMessage.model
+        set((state) => ({ dailyUsage: withDailyUsage(state.dailyUsage, model, reply.usage) }))
+        
+        // Done unless the model is waiting on client tools
+        if (reply.stop_reason !== 'tool_use') break
+        
+        const toolUses: ContentBlock[] = reply.content.filter((block: ContentBlock) => block?.type === 'tool_use')
+        if (toolUses.length === 0) break
+        // Results from the last round would never be sent; end on an error the user can retry
+        if (round === MAX_TOOL_ROUNDS - 1) {
+          throw new Error(`Stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls`)
+        }
+        
+        console.log('Running client tools:', toolUses.map(block => block.name))
+        const toolResults = await runClientTools(get().tools, toolUses, abortController.signal)
+        
+        // Tool results go back to the model as a user message
+        get().addMessage({
+          id: `msg_user_${Date.now()}`,
+          type: 'message',
+          role: 'user',
+          content: toolResults,
+          model: settings.model,
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0 }
+        }, threadId)
+        assistantMessage = null
       }
+      
+      // Name the thread once it has a finished reply; runs in the background
+      void get().generateTitle(threadId)
     } catch (error: any) {
+      // The stored copy has everything streamed before the failure
+      const failedId = assistantMessage?.id
+      const failedMessage = get().threads.find(t => t.id === threadId)?.messages.find(m => m.id === failedId)
+      // A reply cut off mid-stream; a finished one (e.g. waiting on client tools) is already counted
+      const unfinished = failedMessage && !failedMessage.stop_reason ? failedMessage : null
+      // Tokens used before the failure are billed all the same
+      if (unfinished && unfinished.usage.input_tokens > 0) {
+        set((state) => ({ dailyUsage: withDailyUsage(state.dailyUsage, unfinished.model, unfinished.usage) }))
+      }
+      
       if (error.name === 'AbortError') {
         console.log('Request aborted')
-        // Remove the incomplete assistant message
-        set((state) => ({
-          messages: state.messages.filter(m => m.id !== assistantMessage.id)
-        }))
+        const content = unfinished ? keepFinishedContent(unfinished.content) : []
+        if (unfinished && content.length > 0) {
+          get().updateMessage(unfinished.id, { content, stop_reason: STOPPED_BY_USER }, threadId)
+        } else if (unfinished) {
+          // Nothing worth keeping; the branch goes back to the message it answered
+          set((state) => withActiveLeaf({
+            ...state,
+            threads: state.threads.map(t =>
+              t.id === threadId ? { ...t, messages: t.messages.filter(m => m.id !== unfinished.id) } : t
+            )
+          }, threadId, unfinished.parentId))
+        }
       } else {
         console.error('Chat error:', error)
         // Update the assistant message with error
-        get().updateMessage(assistantMessage.id, {
-          content: [{ type: 'text', text: `Error: ${error.message}` }],
-          stop_reason: 'error'
-        })
+        if (failedMessage) {
+          get().updateMessage(failedMessage.id, {
+            content: [{
+              type: 'text',
+              text: `Error: ${error instanceof ChatRequestError ? formatChatError(error.detail) : error.message}`
+            }],
+            stop_reason: 'error'
+          }, threadId)
+        }
       }
     } finally {
-      // Clean up abort controller
+      // Clean up abort controller, unless a newer request for the thread has replaced it
       set((state) => ({
         threads: state.threads.map(t => 
-          t.id === threadId ? { ...t, abortController: undefined } : t
+          t.id === threadId && t.abortController === abortController ? { ...t, abortController: undefined } : t
         )
       }))
     }
+  },
+  
+  // Stop the thread's reply, keeping what has streamed so far
+  stopGeneration: (threadId) => {
+    get().threads.find(t => t.id === threadId)?.abortController?.abort()
+  }
+}), {
+  name: 'chat-store',
+  version: PERSIST_VERSION,
+  storage: createJSONStorage(() => idbStorage, { reviver: reviveDates }),
+  
+  // Only durable data; abort controllers and the derived messages list stay in memory
+  partialize: (state): PersistedChatState => ({
+    threads: state.threads.map(thread => ({ ...thread, abortController: undefined })),
+    selectedThreadId: state.selectedThreadId,
+    artifacts: state.artifacts,
+    defaultSettings: state.defaultSettings,
+    presets: state.presets,
+    dailyUsage: state.dailyUsage,
+    spendCap: state.spendCap
+  }),
+  
+  migrate: (persistedState, version) => {
+    let state = persistedState as PersistedChatState
+    for (let from = version; from < PERSIST_VERSION; from++) {
+      state = migrations[from]?.(state) ?? state
+    }
+    return state
+  },
+  
+  merge: (persistedState, currentState) => {
+    const persisted = persistedState as PersistedChatState | undefined
+    if (!persisted) return currentState
+    
+    const threads = persisted.threads.map(dropInterrupted)
+    const selectedThread = threads.find(t => t.id === persisted.selectedThreadId)
+    
+    return {
+      ...currentState,
+      threads,
+      artifacts: persisted.artifacts,
+      defaultSettings: persisted.defaultSettings,
+      presets: persisted.presets,
+      dailyUsage: persisted.dailyUsage,
+      spendCap: persisted.spendCap,
+      selectedThreadId: selectedThread?.id ?? null,
+      messages: selectedThread ? getActivePath(selectedThread.messages, selectedThread.activeLeafId) : []
+    }
   }
-}))
\ No newline at end of file
+}))